@@ -0,0 +1,275 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Simulation, TICK_RATE, TICK_MS } from '../src/game/Simulation';
+import { AIDifficulty, GameMap, GameModeId, GameRules, SnakeInput } from '../src/types/game';
+import {
+  ClientMessage,
+  ServerMessage,
+  FoodDiffer,
+  encodeSnake,
+  parseMessage
+} from '../src/net/protocol';
+import { SEED_SKINS } from '../src/render/SkinCatalog';
+
+export interface GameServerOptions {
+  port: number;
+  snapshotRate?: number;
+  seed?: number;
+  mode?: GameModeId;
+  rules?: GameRules;
+  map?: GameMap;
+  difficulty?: AIDifficulty;
+  // Origin of the Supabase project that stores uploaded faces; without it face URLs are dropped.
+  faceOrigin?: string;
+}
+
+interface ClientConnection {
+  socket: WebSocket;
+  snakeId: string | null;
+  username: string;
+  color: string;
+  skin: string;
+  faceUrl?: string;
+  inputQueue: { seq: number; input: SnakeInput }[];
+  lastQueuedSeq: number;
+  lastProcessedSeq: number;
+}
+
+const DEFAULT_COLOR = '#00ff00';
+const MAX_FACE_URL_LENGTH = 512;
+const FACE_PATH = '/storage/v1/object/public/user-faces/';
+
+function parseColor(color: unknown): string {
+  return typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_COLOR;
+}
+
+// Unlocks aren't checked here: names aren't authenticated, so the skin lock is only enforced by the start menu.
+function parseSkin(skin: unknown): string {
+  return typeof skin === 'string' && SEED_SKINS.has(skin) ? skin : 'default';
+}
+
+// Every other client loads the face as a texture, so only faces from our own upload storage are passed on.
+function parseFaceUrl(faceUrl: unknown, faceOrigin: string | undefined): string | undefined {
+  if (!faceOrigin || typeof faceUrl !== 'string' || faceUrl.length > MAX_FACE_URL_LENGTH) return undefined;
+
+  try {
+    const url = new URL(faceUrl);
+    return url.origin === faceOrigin && url.pathname.startsWith(FACE_PATH) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class GameServer {
+  private wss: WebSocketServer;
+  private simulation: Simulation;
+  private clients: Set<ClientConnection> = new Set();
+  private foodDiffer = new FoodDiffer();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private lastTickTime: number = 0;
+  private accumulator: number = 0;
+  private nextClientId: number = 1;
+  private roundOverTicks: number = 0;
+  private readonly ticksPerSnapshot: number;
+  private readonly faceOrigin: string | undefined;
+  private readonly MAX_QUEUED_INPUTS = 30;
+  private readonly ROUND_RESTART_TICKS = TICK_RATE * 10;
+
+  constructor(options: GameServerOptions) {
+    this.ticksPerSnapshot = Math.max(1, Math.round(TICK_RATE / (options.snapshotRate ?? 20)));
+    this.faceOrigin = options.faceOrigin ? new URL(options.faceOrigin).origin : undefined;
+
+    this.simulation = new Simulation();
+    this.simulation.reset(options.seed, options.mode, options.rules, options.map, options.difficulty);
+    this.foodDiffer.diff(this.simulation.getState().foods);
+
+    this.wss = new WebSocketServer({ port: options.port });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+  }
+
+  public get modeName(): string {
+    return this.simulation.getMode().name;
+  }
+
+  public start() {
+    this.lastTickTime = performance.now();
+    this.tickTimer = setInterval(() => this.tick(), TICK_MS / 2);
+  }
+
+  public stop() {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.clients.forEach(client => client.socket.close());
+    this.wss.close();
+  }
+
+  private tick() {
+    const now = performance.now();
+    this.accumulator += Math.min(now - this.lastTickTime, TICK_MS * 10);
+    this.lastTickTime = now;
+
+    while (this.accumulator >= TICK_MS) {
+      this.accumulator -= TICK_MS;
+
+      if (this.simulation.getState().mode.isOver) {
+        this.waitForNextRound();
+        continue;
+      }
+
+      this.consumeInputs();
+      this.simulation.step();
+
+      if (this.simulation.tick % this.ticksPerSnapshot === 0 || this.simulation.getState().mode.isOver) {
+        this.broadcastSnapshot();
+      }
+    }
+  }
+
+  private waitForNextRound() {
+    this.roundOverTicks++;
+    if (this.roundOverTicks < this.ROUND_RESTART_TICKS) return;
+
+    this.roundOverTicks = 0;
+    this.simulation.startRound();
+    this.clients.forEach(client => {
+      client.inputQueue = [];
+      this.spawn(client);
+    });
+    console.log(`Round ${this.simulation.getState().mode.id} restarted`);
+  }
+
+  private consumeInputs() {
+    this.clients.forEach(client => {
+      if (!client.snakeId) return;
+
+      // A client that fell behind catches up instead of building permanent lag.
+      while (client.inputQueue.length > 2) {
+        client.inputQueue.shift();
+      }
+
+      const next = client.inputQueue.shift();
+      if (!next) return;
+
+      this.simulation.setInput(client.snakeId, next.input);
+      client.lastProcessedSeq = next.seq;
+    });
+  }
+
+  private handleConnection(socket: WebSocket) {
+    const client: ClientConnection = {
+      socket,
+      snakeId: null,
+      username: '',
+      color: '',
+      skin: 'default',
+      inputQueue: [],
+      lastQueuedSeq: 0,
+      lastProcessedSeq: 0
+    };
+    this.clients.add(client);
+
+    socket.on('message', data => this.handleMessage(client, data));
+    socket.on('close', () => {
+      this.clients.delete(client);
+      if (client.snakeId) {
+        this.simulation.removeSnake(client.snakeId);
+        console.log(`${client.username} left (${this.clients.size} connected)`);
+      }
+    });
+  }
+
+  private handleMessage(client: ClientConnection, data: RawData) {
+    const message = parseMessage<ClientMessage>(data.toString());
+    if (!message) return;
+
+    switch (message.type) {
+      case 'join': {
+        if (client.snakeId) return;
+
+        client.snakeId = `player_${this.nextClientId++}`;
+        client.username = String(message.username).slice(0, 20) || 'Snake';
+        client.color = parseColor(message.color);
+        client.skin = parseSkin(message.skin);
+        client.faceUrl = parseFaceUrl(message.faceUrl, this.faceOrigin);
+        this.spawn(client);
+
+        const state = this.simulation.getState();
+        this.send(client, {
+          type: 'welcome',
+          snakeId: client.snakeId,
+          tick: state.tick,
+          tickRate: TICK_RATE,
+          mapSize: state.mapSize,
+          foods: this.foodDiffer.getKnownFoods(),
+          mode: state.mode,
+          rules: state.rules,
+          map: state.map
+        });
+        console.log(`${client.username} joined (${this.clients.size} connected)`);
+        break;
+      }
+      case 'input': {
+        if (!client.snakeId) return;
+        if (!Number.isFinite(message.targetDirection) || !Number.isInteger(message.seq)) return;
+        if (message.seq <= client.lastQueuedSeq) return;
+
+        client.lastQueuedSeq = message.seq;
+        client.inputQueue.push({
+          seq: message.seq,
+          input: { targetDirection: message.targetDirection, boost: !!message.boost }
+        });
+        if (client.inputQueue.length > this.MAX_QUEUED_INPUTS) {
+          client.inputQueue.shift();
+        }
+        break;
+      }
+      case 'respawn': {
+        const snake = client.snakeId ? this.simulation.getState().snakes.get(client.snakeId) : null;
+        if (snake && snake.isDead) {
+          this.spawn(client);
+        }
+        break;
+      }
+    }
+  }
+
+  private spawn(client: ClientConnection) {
+    if (!client.snakeId) return;
+    this.simulation.spawnSnake(client.snakeId, client.username, client.color, client.skin, client.faceUrl);
+  }
+
+  private broadcastSnapshot() {
+    const state = this.simulation.getState();
+    const { added, removed, moved } = this.foodDiffer.diff(state.foods);
+    const acks: Record<string, number> = {};
+    this.clients.forEach(client => {
+      if (client.snakeId) acks[client.snakeId] = client.lastProcessedSeq;
+    });
+
+    const payload = JSON.stringify({
+      type: 'snapshot',
+      tick: state.tick,
+      snakes: Array.from(state.snakes.values()).map(encodeSnake),
+      acks,
+      foodsAdded: added,
+      foodsRemoved: removed,
+      foodsMoved: moved,
+      powerUps: state.powerUps,
+      mode: state.mode,
+      events: this.simulation.takeEvents()
+    } satisfies ServerMessage);
+
+    this.clients.forEach(client => {
+      if (client.snakeId && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(payload);
+      }
+    });
+  }
+
+  private send(client: ClientConnection, message: ServerMessage) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { GameServer } from './GameServer';
+import { readFileSync } from 'node:fs';
+import { GAME_MODES } from '../src/game/GameMode';
+import { AI_DIFFICULTIES } from '../src/game/AI';
+import { DEFAULT_RULES, getRulesPreset, parseRules } from '../src/game/GameRules';
+import { ARENA_SHAPES, createOpenMap, getBuiltinMap, parseMap } from '../src/game/GameMap';
+import { GameMap, GameRules } from '../src/types/game';
+
+const port = Number(process.env.PORT) || 8080;
+const seed = process.env.SEED ? Number(process.env.SEED) : undefined;
+const mode = GAME_MODES.find(candidate => candidate.id === process.env.GAME_MODE)?.id;
+const difficulty = AI_DIFFICULTIES.find(candidate => candidate.id === process.env.AI_DIFFICULTY)?.id;
+const shape = ARENA_SHAPES.find(candidate => candidate.id === process.env.ARENA)?.id;
+const faceOrigin = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+
+function loadRules(source: string | undefined): GameRules | undefined {
+  if (!source) return undefined;
+  return getRulesPreset(source)?.rules ?? parseRules(readFileSync(source, 'utf8'));
+}
+
+function loadMap(source: string | undefined): GameMap | undefined {
+  if (!source) return undefined;
+  return getBuiltinMap(source) ?? parseMap(readFileSync(source, 'utf8'));
+}
+
+const rules = loadRules(process.env.RULES);
+let map = loadMap(process.env.MAP);
+if (shape) {
+  const { mapWidth, mapHeight } = rules ?? DEFAULT_RULES;
+  map = { ...(map ?? createOpenMap(mapWidth, mapHeight)), shape };
+}
+
+const server = new GameServer({ port, seed, mode, rules, map, difficulty, faceOrigin });
+server.start();
+
+console.log(`Slither Arena server listening on ws://localhost:${port} (${server.modeName})`);
+
+process.on('SIGINT', () => {
+  server.stop();
+  process.exit(0);
+});
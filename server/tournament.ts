@@ -0,0 +1,158 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Simulation, TICK_RATE } from '../src/game/Simulation';
+import { AI_DIFFICULTIES, getBot, getBots } from '../src/game/AI';
+import { BotController } from '../src/game/BotController';
+import { DEFAULT_RULES, getRulesPreset, parseRules } from '../src/game/GameRules';
+import { ARENA_SHAPES, createOpenMap, getBuiltinMap, parseMap } from '../src/game/GameMap';
+import { SeededRandom } from '../src/game/Random';
+import { AIPersonality, GameMap, GameRules, Snake } from '../src/types/game';
+
+interface BotStats {
+  bot: BotController;
+  wins: number;
+  snakes: number;
+  score: number;
+  kills: number;
+  survivalTicks: number;
+}
+
+const PERSONALITIES: AIPersonality[] = ['greedy', 'aggressive', 'cautious'];
+const COLORS = ['#ff6b6b', '#4ecdc4', '#f9ca24', '#6c5ce7', '#fd79a8', '#00b894'];
+
+const { values: args } = parseArgs({
+  options: {
+    matches: { type: 'string', default: '20' },
+    seed: { type: 'string', default: '1' },
+    bots: { type: 'string' },
+    snakes: { type: 'string', default: '3' },
+    difficulty: { type: 'string', default: 'normal' },
+    rules: { type: 'string' },
+    map: { type: 'string' },
+    arena: { type: 'string' },
+    'max-seconds': { type: 'string', default: '300' }
+  }
+});
+
+function loadRules(source: string | undefined): GameRules {
+  if (!source) return DEFAULT_RULES;
+  return getRulesPreset(source)?.rules ?? parseRules(readFileSync(source, 'utf8'));
+}
+
+function loadMap(source: string | undefined, rules: GameRules): GameMap {
+  const map = source
+    ? getBuiltinMap(source) ?? parseMap(readFileSync(source, 'utf8'))
+    : createOpenMap(rules.mapWidth, rules.mapHeight);
+  if (!args.arena) return map;
+
+  const shape = ARENA_SHAPES.find(candidate => candidate.id === args.arena)?.id;
+  if (!shape) throw new Error(`Unknown arena shape "${args.arena}"`);
+  return { ...map, shape };
+}
+
+function positiveInt(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`--${name} must be a positive integer`);
+  return parsed;
+}
+
+const matches = positiveInt('matches', args.matches);
+const baseSeed = Number(args.seed) >>> 0;
+const snakesPerBot = positiveInt('snakes', args.snakes);
+const maxTicks = positiveInt('max-seconds', args['max-seconds']) * TICK_RATE;
+const difficulty = AI_DIFFICULTIES.find(candidate => candidate.id === args.difficulty)?.id;
+if (!difficulty) throw new Error(`Unknown difficulty "${args.difficulty}"`);
+
+const rules: GameRules = { ...loadRules(args.rules), maxAISnakes: 0 };
+const map = loadMap(args.map, rules);
+const bots = args.bots
+  ? args.bots.split(',').map(id => {
+    const bot = getBot(id.trim());
+    if (!bot) throw new Error(`Unknown bot "${id}". Registered bots: ${getBots().map(b => b.id).join(', ')}`);
+    return bot;
+  })
+  : [...getBots()];
+
+const stats = bots.map((bot): BotStats => ({ bot, wins: 0, snakes: 0, score: 0, kills: 0, survivalTicks: 0 }));
+
+function runMatch(seed: number, rotation: number): string {
+  const simulation = new Simulation({ seed, mode: 'royale', rules, map, difficulty });
+  simulation.reset(seed, 'royale', rules, map, difficulty);
+  const state = simulation.getState();
+  const random = new SeededRandom(seed);
+
+  // Rotating the spawn order between matches keeps any bot from always getting the same spawn points.
+  const owners = new Map<string, BotStats>();
+  for (let n = 0; n < snakesPerBot; n++) {
+    stats.forEach((_, i) => {
+      const entry = stats[(i + rotation) % stats.length];
+      const index = stats.indexOf(entry);
+      const id = `${entry.bot.id}_${index}_${n}`;
+      const color = COLORS[index % COLORS.length];
+      simulation.spawnBot(id, `${entry.bot.name} ${n + 1}`, color, {
+        bot: entry.bot.id,
+        personality: random.pick(PERSONALITIES),
+        nextThinkTick: 0
+      });
+      owners.set(id, entry);
+      entry.snakes++;
+    });
+  }
+
+  const alive = new Set(owners.keys());
+  const recordDeaths = () => {
+    simulation.takeEvents().forEach(event => {
+      if (event.type !== 'snakeDied' || !alive.has(event.victim.id)) return;
+
+      alive.delete(event.victim.id);
+      owners.get(event.victim.id)!.survivalTicks += state.tick;
+      const killer = event.killer ? owners.get(event.killer.id) : undefined;
+      if (killer) killer.kills++;
+    });
+  };
+
+  while (!state.mode.isOver && state.tick < maxTicks) {
+    simulation.step();
+    recordDeaths();
+  }
+
+  let winner: Snake | null = null;
+  for (const id of alive) {
+    const snake = state.snakes.get(id)!;
+    owners.get(id)!.survivalTicks += state.tick;
+    if (!winner || snake.score > winner.score) winner = snake;
+  }
+  owners.forEach((entry, id) => {
+    entry.score += state.snakes.get(id)?.score ?? 0;
+  });
+
+  const seconds = (state.tick / TICK_RATE).toFixed(1);
+  if (!winner) return `no survivors after ${seconds}s`;
+  const winnerStats = owners.get(winner.id)!;
+  winnerStats.wins++;
+  return `${winner.username} (${winnerStats.bot.id}) won after ${seconds}s`;
+}
+
+console.log(`Running ${matches} royale matches: ${bots.map(bot => bot.id).join(' vs ')}, ${snakesPerBot} snakes each, ${difficulty} difficulty`);
+
+for (let i = 0; i < matches; i++) {
+  const seed = (baseSeed + i) >>> 0;
+  console.log(`Match ${i + 1}/${matches} (seed ${seed}): ${runMatch(seed, i)}`);
+}
+
+const rows = [
+  ['Bot', 'Win rate', 'Avg score', 'Kills/match', 'Avg survival'],
+  ...stats.map(entry => [
+    `${entry.bot.name} (${entry.bot.id})`,
+    `${((entry.wins / matches) * 100).toFixed(1)}%`,
+    (entry.score / entry.snakes).toFixed(1),
+    (entry.kills / matches).toFixed(2),
+    `${(entry.survivalTicks / entry.snakes / TICK_RATE).toFixed(1)}s`
+  ])
+];
+const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+
+console.log();
+rows.forEach(row => {
+  console.log(row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  '));
+});
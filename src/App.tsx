@@ -1,6 +1,7 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { GameEngine } from './game/GameEngine';
-import { PlayerStats } from './types/game';
+import { EngineEvents } from './game/EngineEvents';
+import { AIDifficulty, GameMap, GameModeId, PlayerStats, Snake, StartOptions } from './types/game';
 import { savePlayerProgress } from './services/GameService';
 import { audioService } from './services/AudioService';
 import StartMenu from './components/StartMenu';
@@ -8,8 +9,30 @@ import HUD from './components/HUD';
 import DeathScreen from './components/DeathScreen';
 import Joystick from './components/Joystick';
 import Minimap from './components/Minimap';
-
-type GamePhase = 'menu' | 'playing' | 'dead';
+import NetworkDebug from './components/NetworkDebug';
+import RenderDebug from './components/RenderDebug';
+import ReplayViewer from './components/ReplayViewer';
+import SpectatorBar from './components/SpectatorBar';
+import RoundResults from './components/RoundResults';
+import MapEditor from './components/MapEditor';
+import { parseLinkConditions } from './net/LinkConditioner';
+import { Replay } from './game/Replay';
+import { downloadReplay } from './services/ReplayService';
+import { DEFAULT_RULES } from './game/GameRules';
+import { createOpenMap } from './game/GameMap';
+import { ArrowLeft } from 'lucide-react';
+import { RendererKind } from './render/Renderer';
+import { ParticleQuality, getParticleQuality } from './render/Particles';
+import { Skin } from './services/SkinService';
+import { useCameraZoom } from './hooks/useCameraZoom';
+
+type GamePhase = 'menu' | 'playing' | 'dead' | 'spectating' | 'results' | 'replay' | 'editor';
+
+const searchParams = new URLSearchParams(window.location.search);
+const linkConditions = parseLinkConditions(window.location.search);
+const interpolationDelay = Number(searchParams.get('interp')) || undefined;
+const showNetworkDebug = searchParams.has('netdebug');
+const showRenderDebug = searchParams.has('renderdebug');
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -17,17 +40,46 @@ function App() {
   const [gamePhase, setGamePhase] = useState<GamePhase>('menu');
   const [leaderboard, setLeaderboard] = useState<{ username: string; score: number }[]>([]);
   const [deathStats, setDeathStats] = useState<PlayerStats | null>(null);
-  const [playerConfig, setPlayerConfig] = useState({ username: '', color: '', skin: '', faceUrl: '' });
+  const [unlockedSkins, setUnlockedSkins] = useState<Skin[]>([]);
+  const [playerConfig, setPlayerConfig] = useState({
+    username: '',
+    color: '',
+    skin: '',
+    faceUrl: '',
+    mode: 'ffa' as GameModeId,
+    rules: DEFAULT_RULES,
+    map: undefined as GameMap | undefined,
+    difficulty: 'normal' as AIDifficulty
+  });
+  const [isOnline, setIsOnline] = useState(false);
+  const [activeReplay, setActiveReplay] = useState<{ replay: Replay; returnTo: 'menu' | 'dead' } | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [standings, setStandings] = useState<{ username: string; score: number; isPlayer: boolean }[]>([]);
+  const [editorMap, setEditorMap] = useState<GameMap>({ ...createOpenMap(5000, 5000), id: 'custom', name: 'Custom Map' });
+  const [isTestPlay, setIsTestPlay] = useState(false);
+  const [spectateView, setSpectateView] = useState<{ target: Snake | null; freeCamera: boolean }>({ target: null, freeCamera: false });
+  const [renderer, setRenderer] = useState<RendererKind>(
+    localStorage.getItem('slither_renderer') === 'webgl' ? 'webgl' : 'canvas'
+  );
+  const [particleQuality, setParticleQuality] = useState<ParticleQuality>(
+    getParticleQuality(localStorage.getItem('slither_particles')).id
+  );
 
-  const lastScoreRef = useRef(0);
-  const lastKillsRef = useRef(0);
+  const getNetworkStats = useCallback(() => gameEngineRef.current?.getNetworkStats() ?? null, []);
+  const getRenderStats = useCallback(() => gameEngineRef.current?.getRenderStats() ?? null, []);
 
   useEffect(() => {
     if (canvasRef.current && !gameEngineRef.current) {
-      gameEngineRef.current = new GameEngine(canvasRef.current);
+      const engine = new GameEngine(canvasRef.current);
+      gameEngineRef.current = engine;
+      setRenderer(kind => engine.setRenderer(kind));
+      setParticleQuality(quality => engine.setParticleQuality(quality));
     }
 
+    const stopSounds = gameEngineRef.current ? audioService.listen(gameEngineRef.current.events) : undefined;
+
     return () => {
+      stopSounds?.();
       if (gameEngineRef.current) {
         gameEngineRef.current.stop();
       }
@@ -37,8 +89,15 @@ function App() {
   useEffect(() => {
     if (gamePhase !== 'playing' || !gameEngineRef.current) return;
 
+    return gameEngineRef.current.events.on('playerDied', handleDeath);
+  }, [gamePhase]);
+
+  useEffect(() => {
+    if ((gamePhase !== 'playing' && gamePhase !== 'spectating' && gamePhase !== 'results') || !gameEngineRef.current) return;
+
     const interval = setInterval(() => {
-      const gameState = gameEngineRef.current!.getGameState();
+      const engine = gameEngineRef.current!;
+      const gameState = engine.getGameState();
       const snakesArray = Array.from(gameState.snakes.values())
         .filter(s => !s.isDead)
         .sort((a, b) => b.score - a.score)
@@ -47,66 +106,207 @@ function App() {
 
       setLeaderboard(snakesArray);
 
-      if (gameState.playerSnake) {
-        if (gameState.playerSnake.score > lastScoreRef.current) {
-          audioService.playEatSound();
-          lastScoreRef.current = gameState.playerSnake.score;
+      if (gamePhase === 'results') {
+        if (!gameState.mode.isOver) {
+          setGamePhase('playing');
         }
+        return;
+      }
 
-        if (gameState.playerSnake.kills > lastKillsRef.current) {
-          audioService.playKillSound();
-          lastKillsRef.current = gameState.playerSnake.kills;
-        }
+      if (gameState.mode.isOver) {
+        handleRoundOver();
+        return;
+      }
 
-        if (gameState.playerSnake.isDead) {
-          handleDeath();
-        }
+      if (gamePhase === 'spectating') {
+        setSpectateView({ target: engine.getSpectatedSnake(), freeCamera: engine.isFreeCamera() });
       }
     }, 100);
 
     return () => clearInterval(interval);
   }, [gamePhase]);
 
-  function handleStart(username: string, color: string, skin: string, faceUrl?: string) {
-    setPlayerConfig({ username, color, skin, faceUrl: faceUrl || '' });
+  function handleStart(username: string, color: string, skin: string, faceUrl: string | undefined, options: StartOptions) {
+    setPlayerConfig({
+      username,
+      color,
+      skin,
+      faceUrl: faceUrl || '',
+      mode: options.mode,
+      rules: options.rules,
+      map: options.map,
+      difficulty: options.difficulty
+    });
+    setIsTestPlay(false);
     if (gameEngineRef.current) {
-      gameEngineRef.current.initialize(username, color, skin, faceUrl);
+      setIsOnline(!!options.serverUrl);
+      if (options.serverUrl) {
+        gameEngineRef.current.connect(
+          options.serverUrl,
+          username,
+          color,
+          skin,
+          faceUrl,
+          handleDisconnect,
+          linkConditions,
+          interpolationDelay
+        );
+      } else {
+        gameEngineRef.current.initialize(
+          username,
+          color,
+          skin,
+          faceUrl,
+          options.mode,
+          options.rules,
+          options.map,
+          options.difficulty
+        );
+      }
       gameEngineRef.current.start();
       audioService.resume();
       setGamePhase('playing');
-      lastScoreRef.current = 0;
-      lastKillsRef.current = 0;
     }
   }
 
-  async function handleDeath() {
+  function handleRendererChange(kind: RendererKind) {
+    const active = gameEngineRef.current?.setRenderer(kind) ?? kind;
+    localStorage.setItem('slither_renderer', kind);
+    setRenderer(active);
+  }
+
+  function handleParticleQualityChange(quality: ParticleQuality) {
+    gameEngineRef.current?.setParticleQuality(quality);
+    localStorage.setItem('slither_particles', quality);
+    setParticleQuality(quality);
+  }
+
+  function handleDisconnect() {
+    gameEngineRef.current?.stop();
+    setDeathStats(null);
+    setGamePhase('menu');
+  }
+
+  async function handleDeath({ stats }: EngineEvents['playerDied']) {
+    if (!gameEngineRef.current) return;
+
+    setDeathStats(stats);
+    setUnlockedSkins([]);
+    setLastReplay(gameEngineRef.current.getLastReplay());
+    setGamePhase('dead');
+
+    if (isTestPlay) return;
+
+    const xpGained = stats.score + stats.kills * 50 + stats.timeAlive;
+    setUnlockedSkins(await savePlayerProgress(playerConfig.username, stats, xpGained));
+  }
+
+  function handleRoundOver() {
     if (!gameEngineRef.current) return;
 
     const gameState = gameEngineRef.current.getGameState();
-    const playerSnake = gameState.playerSnake;
+    setStandings(
+      Array.from(gameState.snakes.values())
+        .filter(s => !s.isDead || s === gameState.playerSnake)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(s => ({ username: s.username, score: s.score, isPlayer: s === gameState.playerSnake }))
+    );
+    setLastReplay(gameEngineRef.current.getLastReplay());
+    setGamePhase('results');
+  }
 
-    if (!playerSnake) return;
+  function handlePlayAgain() {
+    if (!gameEngineRef.current) return;
 
-    const snakesArray = Array.from(gameState.snakes.values())
-      .filter(s => !s.isDead)
-      .sort((a, b) => b.score - a.score);
+    gameEngineRef.current.initialize(
+      playerConfig.username,
+      playerConfig.color,
+      playerConfig.skin,
+      playerConfig.faceUrl || undefined,
+      playerConfig.mode,
+      playerConfig.rules,
+      playerConfig.map,
+      playerConfig.difficulty
+    );
+    setGamePhase('playing');
+  }
 
-    const rank = snakesArray.findIndex(s => s.id === 'player') + 1;
+  function handleMainMenu() {
+    if (!gameEngineRef.current) return;
 
-    const stats: PlayerStats = {
-      score: playerSnake.score,
-      mass: Math.floor(playerSnake.mass),
-      kills: playerSnake.kills,
-      timeAlive: gameEngineRef.current.getTimeAlive(),
-      rank: rank > 0 ? rank : snakesArray.length + 1
-    };
+    gameEngineRef.current.disconnect();
+    gameEngineRef.current.stop();
+    setGamePhase('menu');
+  }
 
-    setDeathStats(stats);
-    setGamePhase('dead');
-    audioService.playDeathSound();
+  function handleOpenEditor() {
+    if (!gameEngineRef.current) return;
 
-    const xpGained = stats.score + stats.kills * 50 + stats.timeAlive;
-    await savePlayerProgress(playerConfig.username, stats, xpGained);
+    gameEngineRef.current.startEditor(editorMap);
+    setIsTestPlay(false);
+    setGamePhase('editor');
+  }
+
+  function handleExitEditor(map: GameMap) {
+    if (!gameEngineRef.current) return;
+
+    setEditorMap(map);
+    gameEngineRef.current.exitEditor();
+    gameEngineRef.current.stop();
+    setGamePhase('menu');
+  }
+
+  function handleTestPlay(map: GameMap) {
+    if (!gameEngineRef.current) return;
+
+    const username = localStorage.getItem('slither_username') || 'Map Tester';
+    setEditorMap(map);
+    setPlayerConfig({
+      username,
+      color: '#00ff00',
+      skin: 'default',
+      faceUrl: '',
+      mode: 'ffa',
+      rules: DEFAULT_RULES,
+      map,
+      difficulty: playerConfig.difficulty
+    });
+    setIsOnline(false);
+    setIsTestPlay(true);
+    setDeathStats(null);
+    gameEngineRef.current.initialize(username, '#00ff00', 'default', undefined, 'ffa', DEFAULT_RULES, map, playerConfig.difficulty);
+    setGamePhase('playing');
+  }
+
+  function handleWatchReplay(replay: Replay, returnTo: 'menu' | 'dead') {
+    if (!gameEngineRef.current) return;
+
+    gameEngineRef.current.startReplay(replay);
+    setActiveReplay({ replay, returnTo });
+    setGamePhase('replay');
+  }
+
+  function handleExitReplay() {
+    if (!gameEngineRef.current || !activeReplay) return;
+
+    gameEngineRef.current.exitReplay();
+    if (activeReplay.returnTo === 'menu') {
+      gameEngineRef.current.stop();
+    }
+    setGamePhase(activeReplay.returnTo);
+    setActiveReplay(null);
+  }
+
+  function handleSpectate() {
+    if (!gameEngineRef.current) return;
+
+    gameEngineRef.current.startSpectating();
+    setSpectateView({
+      target: gameEngineRef.current.getSpectatedSnake(),
+      freeCamera: gameEngineRef.current.isFreeCamera()
+    });
+    setGamePhase('spectating');
   }
 
   function handleRespawn() {
@@ -114,8 +314,6 @@ function App() {
       gameEngineRef.current.respawn(playerConfig.username, playerConfig.color, playerConfig.skin, playerConfig.faceUrl);
       setGamePhase('playing');
       setDeathStats(null);
-      lastScoreRef.current = 0;
-      lastKillsRef.current = 0;
     }
   }
 
@@ -162,17 +360,54 @@ function App() {
     };
   }, [gamePhase]);
 
+  useCameraZoom(gameEngineRef.current, gamePhase === 'playing');
+
   const gameState = gameEngineRef.current?.getGameState();
 
   return (
     <div className="relative w-full h-screen overflow-hidden bg-black">
       <canvas ref={canvasRef} className="absolute inset-0" />
 
-      {gamePhase === 'menu' && <StartMenu onStart={handleStart} />}
+      {gamePhase === 'menu' && (
+        <StartMenu
+          onStart={handleStart}
+          onWatchReplay={(replay) => handleWatchReplay(replay, 'menu')}
+          onOpenEditor={handleOpenEditor}
+          renderer={renderer}
+          onRendererChange={handleRendererChange}
+          particleQuality={particleQuality}
+          onParticleQualityChange={handleParticleQualityChange}
+        />
+      )}
+
+      {gamePhase === 'editor' && gameEngineRef.current && (
+        <MapEditor
+          engine={gameEngineRef.current}
+          initialMap={editorMap}
+          onTestPlay={handleTestPlay}
+          onExit={handleExitEditor}
+        />
+      )}
+
+      {isTestPlay && (gamePhase === 'playing' || gamePhase === 'dead' || gamePhase === 'results') && (
+        <button
+          onClick={handleOpenEditor}
+          className="fixed top-4 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-gray-900 bg-opacity-90 hover:bg-gray-800 text-white text-sm px-4 py-2 rounded-lg border-2 border-gray-700 z-[60] transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Editor
+        </button>
+      )}
 
       {gamePhase === 'playing' && gameState?.playerSnake && (
         <>
-          <HUD playerSnake={gameState.playerSnake} leaderboard={leaderboard} />
+          <HUD
+            playerSnake={gameState.playerSnake}
+            leaderboard={leaderboard}
+            mode={gameState.mode}
+            tick={gameState.tick}
+            events={gameEngineRef.current?.events}
+          />
           <Minimap gameState={gameState} playerSnake={gameState.playerSnake} />
           <Joystick
             onMove={(x, y) => gameEngineRef.current?.setTouchPosition(x, y)}
@@ -182,8 +417,65 @@ function App() {
         </>
       )}
 
+      {gamePhase === 'spectating' && gameState && gameEngineRef.current && (
+        <>
+          {spectateView.target && (
+            <HUD
+              playerSnake={spectateView.target}
+              leaderboard={leaderboard}
+              mode={gameState.mode}
+              tick={gameState.tick}
+              spectating
+              events={gameEngineRef.current.events}
+            />
+          )}
+          <Minimap gameState={gameState} playerSnake={spectateView.target} />
+          <SpectatorBar
+            engine={gameEngineRef.current}
+            target={spectateView.target}
+            freeCamera={spectateView.freeCamera}
+            onRespawn={handleRespawn}
+          />
+        </>
+      )}
+
+      {gamePhase !== 'menu' && isOnline && showNetworkDebug && (
+        <NetworkDebug
+          initialConditions={linkConditions}
+          getStats={getNetworkStats}
+          onChange={(conditions) => gameEngineRef.current?.setLinkConditions(conditions)}
+        />
+      )}
+
+      {gamePhase !== 'menu' && showRenderDebug && <RenderDebug getStats={getRenderStats} />}
+
       {gamePhase === 'dead' && deathStats && (
-        <DeathScreen stats={deathStats} onRespawn={handleRespawn} />
+        <DeathScreen
+          stats={deathStats}
+          unlockedSkins={unlockedSkins}
+          onRespawn={handleRespawn}
+          onSpectate={handleSpectate}
+          onWatchReplay={lastReplay ? () => handleWatchReplay(lastReplay, 'dead') : undefined}
+          onExportReplay={lastReplay ? () => downloadReplay(lastReplay) : undefined}
+        />
+      )}
+
+      {gamePhase === 'results' && gameState && (
+        <RoundResults
+          mode={gameState.mode}
+          standings={standings}
+          onPlayAgain={isOnline ? undefined : handlePlayAgain}
+          onMenu={handleMainMenu}
+        />
+      )}
+
+      {gamePhase === 'replay' && activeReplay && gameEngineRef.current && (
+        <ReplayViewer
+          engine={gameEngineRef.current}
+          title={`${activeReplay.replay.config.username} · ${new Date(activeReplay.replay.recordedAt).toLocaleString()}`}
+          onExport={() => downloadReplay(activeReplay.replay)}
+          onExit={handleExitReplay}
+        />
       )}
     </div>
   );
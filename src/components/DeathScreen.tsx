@@ -1,11 +1,17 @@
+import { Film, Download, Eye, Unlock } from 'lucide-react';
 import { PlayerStats } from '../types/game';
+import { Skin } from '../services/SkinService';
 
 interface DeathScreenProps {
   stats: PlayerStats;
+  unlockedSkins?: Skin[];
   onRespawn: () => void;
+  onSpectate?: () => void;
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
 }
 
-export default function DeathScreen({ stats, onRespawn }: DeathScreenProps) {
+export default function DeathScreen({ stats, unlockedSkins = [], onRespawn, onSpectate, onWatchReplay, onExportReplay }: DeathScreenProps) {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
       <div className="bg-gray-900 p-8 rounded-2xl shadow-2xl max-w-md w-full mx-4 border-2 border-red-600">
@@ -43,12 +49,55 @@ export default function DeathScreen({ stats, onRespawn }: DeathScreenProps) {
           </div>
         </div>
 
+        {unlockedSkins.length > 0 && (
+          <div className="flex items-center gap-3 bg-yellow-900 bg-opacity-40 border border-yellow-500 p-3 rounded-lg mb-6">
+            <Unlock className="w-6 h-6 text-yellow-400 flex-shrink-0" />
+            <div>
+              <p className="text-yellow-300 font-bold">
+                New {unlockedSkins.length === 1 ? 'skin' : 'skins'} unlocked!
+              </p>
+              <p className="text-sm text-gray-300">
+                {unlockedSkins.map(skin => `${skin.name}${skin.glow_effect ? ' ✨' : ''}`).join(', ')}
+              </p>
+            </div>
+          </div>
+        )}
+
         <button
           onClick={onRespawn}
           className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white font-bold py-4 px-6 rounded-lg text-xl transition-all duration-200 transform hover:scale-105"
         >
           Respawn
         </button>
+
+        {onSpectate && (
+          <button
+            onClick={onSpectate}
+            className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-medium py-3 px-4 rounded-lg mt-3 transition-colors"
+          >
+            <Eye className="w-5 h-5" />
+            Spectate
+          </button>
+        )}
+
+        {onWatchReplay && onExportReplay && (
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <button
+              onClick={onWatchReplay}
+              className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+            >
+              <Film className="w-5 h-5" />
+              Watch Replay
+            </button>
+            <button
+              onClick={onExportReplay}
+              className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+            >
+              <Download className="w-5 h-5" />
+              Export Replay
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,18 +1,80 @@
-import { Snake } from '../types/game';
+import { useEffect, useRef, useState } from 'react';
+import { ModeState, PowerUpType, Snake, SnakeTag } from '../types/game';
+import { TICK_RATE } from '../game/Simulation';
+import { POWER_UPS } from '../game/PowerUps';
+import { GameEventBus } from '../game/EngineEvents';
+import KillFeed from './KillFeed';
 
 interface HUDProps {
   playerSnake: Snake | null;
   leaderboard: { username: string; score: number }[];
+  mode?: ModeState;
+  tick?: number;
+  spectating?: boolean;
+  // The engine's events for the kill feed and callouts; without them the HUD only shows state.
+  events?: GameEventBus;
 }
 
-export default function HUD({ playerSnake, leaderboard }: HUDProps) {
+interface KillCallout {
+  victim: SnakeTag;
+  streak: number;
+  title?: string;
+}
+
+const CALLOUT_MS = 2500;
+
+// Kills in one life that earn a title.
+const STREAK_TITLES: Record<number, string> = {
+  3: 'Killing Spree',
+  5: 'Rampage',
+  8: 'Dominating',
+  12: 'Unstoppable'
+};
+
+function formatSeconds(totalSeconds: number) {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export default function HUD({ playerSnake, leaderboard, mode, tick = 0, spectating = false, events }: HUDProps) {
+  const [callout, setCallout] = useState<KillCallout | null>(null);
+  const streak = useRef(0);
+
+  useEffect(() => {
+    if (!events) return;
+
+    let timeout: number | undefined;
+    const unsubscribers = [
+      events.on('snakeKilled', ({ victim, isPlayerKiller }) => {
+        if (!isPlayerKiller) return;
+        streak.current++;
+        setCallout({ victim, streak: streak.current, title: STREAK_TITLES[streak.current] });
+        window.clearTimeout(timeout);
+        timeout = window.setTimeout(() => setCallout(null), CALLOUT_MS);
+      }),
+      events.on('playerDied', () => {
+        streak.current = 0;
+      }),
+      events.on('snakeSpawned', ({ isPlayer }) => {
+        if (isPlayer) streak.current = 0;
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      window.clearTimeout(timeout);
+    };
+  }, [events]);
+
   if (!playerSnake) return null;
 
   const massPercentage = Math.min(100, (playerSnake.mass / 500) * 100);
+  const effects = Object.entries(playerSnake.effects ?? {}) as [PowerUpType, number][];
 
   return (
     <>
       <div className="fixed top-4 left-4 bg-black bg-opacity-60 text-white p-4 rounded-lg z-40">
+        {spectating && <div className="text-xs text-blue-400 mb-1 truncate max-w-[10rem]">Spectating {playerSnake.username}</div>}
         <div className="text-2xl font-bold mb-2">Score: {playerSnake.score}</div>
         <div className="text-sm">Mass: {Math.floor(playerSnake.mass)}</div>
         <div className="text-sm">Kills: {playerSnake.kills}</div>
@@ -27,30 +89,91 @@ export default function HUD({ playerSnake, leaderboard }: HUDProps) {
             />
           </div>
         </div>
+
+        {effects.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {effects.map(([type, expiresAt]) => {
+              const definition = POWER_UPS[type];
+              const remaining = (expiresAt - tick) / TICK_RATE;
+              return (
+                <div key={type} className="text-xs">
+                  <div className="flex justify-between" style={{ color: definition.color }}>
+                    <span>{definition.name}</span>
+                    <span className="tabular-nums">{Math.max(0, remaining).toFixed(1)}s</span>
+                  </div>
+                  <div className="w-32 h-1 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full"
+                      style={{
+                        width: `${Math.min(100, (remaining / definition.seconds) * 100)}%`,
+                        backgroundColor: definition.color
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {mode && (mode.endsAtTick !== null || mode.teams.length > 0 || mode.zone) && (
+          <div className="mt-3 pt-2 border-t border-gray-600 text-sm space-y-1">
+            {mode.endsAtTick !== null && (
+              <div className="font-bold tabular-nums">Time: {formatSeconds((mode.endsAtTick - tick) / TICK_RATE)}</div>
+            )}
+            {mode.teams.map((team) => (
+              <div
+                key={team.id}
+                className={`flex justify-between ${team.id === playerSnake.team ? 'font-bold' : ''}`}
+                style={{ color: team.color }}
+              >
+                <span>{team.name}</span>
+                <span className="ml-2">{team.score}</span>
+              </div>
+            ))}
+            {mode.zone && <div className="text-red-400">Safe zone: {Math.round(mode.zone.radius)}</div>}
+          </div>
+        )}
       </div>
 
-      <div className="fixed top-4 right-4 bg-black bg-opacity-60 text-white p-4 rounded-lg z-40 w-48">
-        <div className="text-lg font-bold mb-3 border-b border-gray-600 pb-2">Leaderboard</div>
-        <div className="space-y-2">
-          {leaderboard.slice(0, 10).map((entry, index) => (
-            <div
-              key={index}
-              className={`flex justify-between text-sm ${
-                entry.username === playerSnake.username ? 'text-yellow-400 font-bold' : ''
-              }`}
-            >
-              <span className="truncate flex-1">
-                {index + 1}. {entry.username}
-              </span>
-              <span className="ml-2">{entry.score}</span>
-            </div>
-          ))}
+      <div className="fixed top-4 right-4 z-40 w-48 space-y-2">
+        <div className="bg-black bg-opacity-60 text-white p-4 rounded-lg">
+          <div className="text-lg font-bold mb-3 border-b border-gray-600 pb-2">Leaderboard</div>
+          <div className="space-y-2">
+            {leaderboard.slice(0, 10).map((entry, index) => (
+              <div
+                key={index}
+                className={`flex justify-between text-sm ${
+                  entry.username === playerSnake.username ? 'text-yellow-400 font-bold' : ''
+                }`}
+              >
+                <span className="truncate flex-1">
+                  {index + 1}. {entry.username}
+                </span>
+                <span className="ml-2">{entry.score}</span>
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
 
-      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 text-white text-sm bg-black bg-opacity-60 px-4 py-2 rounded-lg z-40 hidden md:block">
-        Move: Mouse | Boost: Space or Left Click
+        {events && <KillFeed events={events} />}
       </div>
+
+      {callout && (
+        <div className="fixed top-20 left-1/2 transform -translate-x-1/2 text-center text-white font-bold bg-black bg-opacity-60 px-4 py-2 rounded-lg z-40 pointer-events-none">
+          {callout.title && <div className="text-2xl text-yellow-400">{callout.title}</div>}
+          <div className="text-lg">
+            Eliminated <span style={{ color: callout.victim.color }}>{callout.victim.username}</span>
+            {callout.streak > 1 && <span className="text-sm text-gray-300 font-normal ml-2">{callout.streak} in a row</span>}
+          </div>
+        </div>
+      )}
+
+      {!spectating && (
+        <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 text-white text-sm bg-black bg-opacity-60 px-4 py-2 rounded-lg z-40 hidden md:block">
+          Move: Mouse | Boost: Space or Left Click | Zoom: Wheel
+        </div>
+      )}
     </>
   );
 }
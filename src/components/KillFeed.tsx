@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import { Skull, Swords } from 'lucide-react';
+import { DeathCause, SnakeTag } from '../types/game';
+import { GameEventBus } from '../game/EngineEvents';
+
+interface KillFeedProps {
+  events: GameEventBus;
+}
+
+interface KillFeedEntry {
+  id: number;
+  victim: SnakeTag;
+  killer: SnakeTag | null;
+  cause: DeathCause;
+  involvesPlayer: boolean;
+}
+
+const MAX_ENTRIES = 5;
+const ENTRY_MS = 6000;
+
+// Deaths nobody gets credit for read as "<victim> <what happened>".
+const ACCIDENTS: Partial<Record<DeathCause, string>> = {
+  border: 'left the arena',
+  obstacle: 'hit a wall',
+  zone: 'was caught by the zone'
+};
+
+export default function KillFeed({ events }: KillFeedProps) {
+  const [entries, setEntries] = useState<KillFeedEntry[]>([]);
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    const timeouts = new Set<number>();
+    const unsubscribe = events.on('snakeKilled', ({ victim, killer, cause, isPlayerVictim, isPlayerKiller }) => {
+      const id = nextId.current++;
+      setEntries(list => [{ id, victim, killer, cause, involvesPlayer: isPlayerVictim || isPlayerKiller }, ...list].slice(0, MAX_ENTRIES));
+
+      const timeout = window.setTimeout(() => {
+        timeouts.delete(timeout);
+        setEntries(list => list.filter(entry => entry.id !== id));
+      }, ENTRY_MS);
+      timeouts.add(timeout);
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach(timeout => window.clearTimeout(timeout));
+    };
+  }, [events]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-black bg-opacity-60 text-white p-3 rounded-lg text-xs space-y-1">
+      {entries.map(entry => (
+        <div key={entry.id} className={`flex items-center gap-1 ${entry.involvesPlayer ? 'font-bold' : ''}`}>
+          {entry.killer && (
+            <>
+              <span className="truncate" style={{ color: entry.killer.color }}>{entry.killer.username}</span>
+              {entry.cause === 'headOn' ? (
+                <Swords className="w-3 h-3 flex-shrink-0" aria-label="head on" />
+              ) : (
+                <Skull className="w-3 h-3 flex-shrink-0" aria-label="killed" />
+              )}
+            </>
+          )}
+          <span className="truncate" style={{ color: entry.victim.color }}>{entry.victim.username}</span>
+          {!entry.killer && <span className="text-gray-400 whitespace-nowrap">{ACCIDENTS[entry.cause] ?? 'died'}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState } from 'react';
+import { Hand, Square, Mountain, MapPin, Apple, Waves, Eraser, Play, Download, Upload, Trash2, X } from 'lucide-react';
+import { GameEngine } from '../game/GameEngine';
+import { ArenaShape, GameMap, Vector2 } from '../types/game';
+import { ARENA_SHAPES, MIN_SPAWN_DISTANCE, getMapProblems } from '../game/GameMap';
+import { downloadMap, readMapFile } from '../services/MapService';
+import { useFreeCamera } from '../hooks/useFreeCamera';
+
+interface MapEditorProps {
+  engine: GameEngine;
+  initialMap: GameMap;
+  onTestPlay: (map: GameMap) => void;
+  onExit: (map: GameMap) => void;
+}
+
+type EditorTool = 'pan' | 'wall' | 'rock' | 'spawn' | 'food' | 'slow' | 'erase';
+
+const TOOLS: { id: EditorTool; name: string; icon: typeof Hand; hint: string }[] = [
+  { id: 'pan', name: 'Pan', icon: Hand, hint: 'Drag to move the camera' },
+  { id: 'wall', name: 'Wall', icon: Square, hint: 'Drag to draw a wall' },
+  { id: 'rock', name: 'Rock', icon: Mountain, hint: 'Drag from the centre to size a rock' },
+  { id: 'spawn', name: 'Spawn', icon: MapPin, hint: 'Click to place a spawn point' },
+  { id: 'food', name: 'Food', icon: Apple, hint: 'Drag from the centre to size a food zone' },
+  { id: 'slow', name: 'Slow', icon: Waves, hint: 'Drag from the centre to size a slow zone' },
+  { id: 'erase', name: 'Erase', icon: Eraser, hint: 'Click a feature to remove it' }
+];
+
+const GRID_SIZE = 50;
+
+function snap(point: Vector2): Vector2 {
+  return { x: Math.round(point.x / GRID_SIZE) * GRID_SIZE, y: Math.round(point.y / GRID_SIZE) * GRID_SIZE };
+}
+
+function toMapId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom';
+}
+
+function eraseAt(map: GameMap, point: Vector2): GameMap {
+  const lastIndex = <T,>(items: T[], hit: (item: T) => boolean) => {
+    for (let i = items.length - 1; i >= 0; i--) {
+      if (hit(items[i])) return i;
+    }
+    return -1;
+  };
+  const without = <T,>(items: T[], index: number) => items.filter((_, i) => i !== index);
+  const inCircle = (shape: { x: number; y: number; radius: number }) =>
+    Math.hypot(point.x - shape.x, point.y - shape.y) < shape.radius;
+
+  const spawn = lastIndex(map.spawns, s => Math.hypot(point.x - s.x, point.y - s.y) < MIN_SPAWN_DISTANCE / 2);
+  if (spawn !== -1) return { ...map, spawns: without(map.spawns, spawn) };
+
+  const rock = lastIndex(map.rocks, inCircle);
+  if (rock !== -1) return { ...map, rocks: without(map.rocks, rock) };
+
+  const wall = lastIndex(map.walls, w =>
+    point.x >= w.x && point.x <= w.x + w.width && point.y >= w.y && point.y <= w.y + w.height);
+  if (wall !== -1) return { ...map, walls: without(map.walls, wall) };
+
+  const slow = lastIndex(map.slowZones, inCircle);
+  if (slow !== -1) return { ...map, slowZones: without(map.slowZones, slow) };
+
+  const food = lastIndex(map.foodZones, inCircle);
+  if (food !== -1) return { ...map, foodZones: without(map.foodZones, food) };
+
+  return map;
+}
+
+function applyTool(map: GameMap, tool: EditorTool, from: Vector2, to: Vector2, density: number, factor: number): GameMap {
+  const start = snap(from);
+  const end = snap(to);
+  const radius = Math.hypot(end.x - start.x, end.y - start.y);
+
+  switch (tool) {
+    case 'wall': {
+      const width = Math.abs(end.x - start.x);
+      const height = Math.abs(end.y - start.y);
+      if (width === 0 || height === 0) return map;
+      return { ...map, walls: [...map.walls, { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width, height }] };
+    }
+    case 'rock':
+      return radius > 0 ? { ...map, rocks: [...map.rocks, { ...start, radius }] } : map;
+    case 'food':
+      return radius > 0 ? { ...map, foodZones: [...map.foodZones, { ...start, radius, density }] } : map;
+    case 'slow':
+      return radius > 0 ? { ...map, slowZones: [...map.slowZones, { ...start, radius, factor }] } : map;
+    case 'spawn':
+      return { ...map, spawns: [...map.spawns, start] };
+    case 'erase':
+      return eraseAt(map, from);
+    default:
+      return map;
+  }
+}
+
+export default function MapEditor({ engine, initialMap, onTestPlay, onExit }: MapEditorProps) {
+  const [map, setMap] = useState<GameMap>(initialMap);
+  const [preview, setPreview] = useState<GameMap | null>(null);
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [density, setDensity] = useState(3);
+  const [factor, setFactor] = useState(0.5);
+  const [cursor, setCursor] = useState<Vector2>({ x: 0, y: 0 });
+  const [importError, setImportError] = useState<string | null>(null);
+  const dragStart = useRef<Vector2 | null>(null);
+
+  useFreeCamera(engine, tool === 'pan');
+
+  useEffect(() => {
+    engine.setEditorMap(preview ?? map);
+  }, [engine, map, preview]);
+
+  useEffect(() => {
+    if (tool === 'pan') return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0 || !(e.target instanceof HTMLCanvasElement)) return;
+      const point = engine.screenToWorld(e.clientX, e.clientY);
+
+      if (tool === 'spawn' || tool === 'erase') {
+        setMap(current => applyTool(current, tool, point, point, density, factor));
+        return;
+      }
+      dragStart.current = point;
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = engine.screenToWorld(e.clientX, e.clientY);
+      setCursor(snap(point));
+      if (dragStart.current) {
+        setPreview(applyTool(map, tool, dragStart.current, point, density, factor));
+      }
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      if (!dragStart.current) return;
+      const start = dragStart.current;
+      dragStart.current = null;
+      setPreview(null);
+      setMap(current => applyTool(current, tool, start, engine.screenToWorld(e.clientX, e.clientY), density, factor));
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [engine, map, tool, density, factor]);
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      setImportError(null);
+      const imported = await readMapFile(file);
+      setMap(imported);
+      engine.startEditor(imported);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read map');
+    }
+  }
+
+  const problems = getMapProblems(map);
+  const activeTool = TOOLS.find(option => option.id === tool)!;
+
+  return (
+    <>
+      <div className="fixed top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white px-4 py-2 rounded-lg z-40 text-sm">
+        <span className="text-green-400 font-bold mr-2">MAP EDITOR</span>
+        {activeTool.hint} · Wheel to zoom, WASD to pan
+        <span className="text-gray-400 ml-2 tabular-nums">{cursor.x}, {cursor.y}</span>
+      </div>
+
+      <div className="fixed top-4 left-4 bg-gray-900 bg-opacity-90 text-white p-4 rounded-xl z-40 w-64 border-2 border-gray-700 space-y-4 max-h-[calc(100vh-2rem)] overflow-y-auto">
+        <input
+          type="text"
+          value={map.name}
+          onChange={(e) => setMap({ ...map, name: e.target.value, id: toMapId(e.target.value) })}
+          maxLength={30}
+          className="w-full px-3 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none"
+        />
+
+        <div className="grid grid-cols-4 gap-1">
+          {TOOLS.map(({ id, name, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              title={name}
+              className={`flex flex-col items-center gap-1 py-2 rounded-lg text-xs transition-colors ${
+                tool === id ? 'bg-green-600' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {name}
+            </button>
+          ))}
+        </div>
+
+        {tool === 'food' && (
+          <label className="block text-xs text-gray-300">
+            Food density: {density}x
+            <input
+              type="range"
+              min={2}
+              max={8}
+              value={density}
+              onChange={(e) => setDensity(Number(e.target.value))}
+              className="w-full accent-green-500"
+            />
+          </label>
+        )}
+
+        {tool === 'slow' && (
+          <label className="block text-xs text-gray-300">
+            Speed inside zone: {Math.round(factor * 100)}%
+            <input
+              type="range"
+              min={0.2}
+              max={0.9}
+              step={0.1}
+              value={factor}
+              onChange={(e) => setFactor(Number(e.target.value))}
+              className="w-full accent-green-500"
+            />
+          </label>
+        )}
+
+        <div className="space-y-2">
+          <select
+            value={map.shape}
+            onChange={(e) => setMap({ ...map, shape: e.target.value as ArenaShape })}
+            className="w-full px-3 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none"
+          >
+            {ARENA_SHAPES.map((shape) => (
+              <option key={shape.id} value={shape.id}>{shape.name} arena</option>
+            ))}
+          </select>
+          <label className="block text-xs text-gray-300">
+            Width: {map.width}
+            <input
+              type="range"
+              min={1000}
+              max={20000}
+              step={500}
+              value={map.width}
+              onChange={(e) => setMap({ ...map, width: Number(e.target.value) })}
+              className="w-full accent-green-500"
+            />
+          </label>
+          <label className="block text-xs text-gray-300">
+            Height: {map.height}
+            <input
+              type="range"
+              min={1000}
+              max={20000}
+              step={500}
+              value={map.height}
+              onChange={(e) => setMap({ ...map, height: Number(e.target.value) })}
+              className="w-full accent-green-500"
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          {map.walls.length} walls · {map.rocks.length} rocks · {map.spawns.length} spawns ·{' '}
+          {map.foodZones.length} food zones · {map.slowZones.length} slow zones
+        </p>
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-1">
+            {problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onTestPlay(map)}
+            disabled={problems.length > 0}
+            className="col-span-2 flex items-center justify-center gap-2 py-2 rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-sm font-bold transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            Test Play
+          </button>
+          <button
+            onClick={() => downloadMap(map)}
+            disabled={problems.length > 0}
+            className="flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-sm transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <label className="flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm transition-colors cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={() => setMap({ ...map, walls: [], rocks: [], slowZones: [], foodZones: [], spawns: [] })}
+            className="flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </button>
+          <button
+            onClick={() => onExit(map)}
+            className="flex items-center justify-center gap-2 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-sm transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
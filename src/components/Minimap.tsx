@@ -1,4 +1,5 @@
 import { Snake, GameState } from '../types/game';
+import { arenaRadius } from '../game/GameMap';
 
 interface MinimapProps {
   gameState: GameState;
@@ -16,15 +17,61 @@ export default function Minimap({ gameState, playerSnake }: MinimapProps) {
       <svg width={minimapSize} height={minimapSize}>
         <rect width={minimapSize} height={minimapSize} fill="#1a1a1a" />
 
-        <rect
-          x={0}
-          y={0}
-          width={gameState.mapSize.width * scale}
-          height={gameState.mapSize.height * scale}
-          fill="none"
-          stroke="#444"
-          strokeWidth={1}
-        />
+        {gameState.map.shape === 'circle' ? (
+          <circle
+            cx={(gameState.mapSize.width / 2) * scale}
+            cy={(gameState.mapSize.height / 2) * scale}
+            r={arenaRadius(gameState.map) * scale}
+            fill="none"
+            stroke="#444"
+            strokeWidth={1}
+          />
+        ) : (
+          <rect
+            x={0}
+            y={0}
+            width={gameState.mapSize.width * scale}
+            height={gameState.mapSize.height * scale}
+            fill="none"
+            stroke="#444"
+            strokeWidth={1}
+            strokeDasharray={gameState.map.shape === 'torus' ? '4 3' : undefined}
+          />
+        )}
+
+        {gameState.map.foodZones.map((zone, index) => (
+          <circle key={`food_${index}`} cx={zone.x * scale} cy={zone.y * scale} r={zone.radius * scale} fill="#4ade80" opacity={0.1} />
+        ))}
+
+        {gameState.map.slowZones.map((zone, index) => (
+          <circle key={`slow_${index}`} cx={zone.x * scale} cy={zone.y * scale} r={zone.radius * scale} fill="#785328" opacity={0.5} />
+        ))}
+
+        {gameState.map.walls.map((wall, index) => (
+          <rect
+            key={`wall_${index}`}
+            x={wall.x * scale}
+            y={wall.y * scale}
+            width={Math.max(1, wall.width * scale)}
+            height={Math.max(1, wall.height * scale)}
+            fill="#71717a"
+          />
+        ))}
+
+        {gameState.map.rocks.map((rock, index) => (
+          <circle key={`rock_${index}`} cx={rock.x * scale} cy={rock.y * scale} r={Math.max(1, rock.radius * scale)} fill="#71717a" />
+        ))}
+
+        {gameState.mode.zone && (
+          <circle
+            cx={gameState.mode.zone.x * scale}
+            cy={gameState.mode.zone.y * scale}
+            r={gameState.mode.zone.radius * scale}
+            fill="none"
+            stroke="#f87171"
+            strokeWidth={1.5}
+          />
+        )}
 
         {Array.from(gameState.snakes.values()).map((snake) => {
           if (snake.isDead) return null;
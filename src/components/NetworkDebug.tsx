@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { LinkConditions } from '../net/LinkConditioner';
+import { NetcodeStats } from '../net/Netcode';
+
+interface NetworkDebugProps {
+  initialConditions: LinkConditions;
+  getStats: () => NetcodeStats | null;
+  onChange: (conditions: LinkConditions) => void;
+}
+
+export default function NetworkDebug({ initialConditions, getStats, onChange }: NetworkDebugProps) {
+  const [conditions, setConditions] = useState(initialConditions);
+  const [stats, setStats] = useState<NetcodeStats | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setStats(getStats()), 250);
+    return () => clearInterval(interval);
+  }, [getStats]);
+
+  function update(patch: Partial<LinkConditions>) {
+    const next = { ...conditions, ...patch };
+    setConditions(next);
+    onChange(next);
+  }
+
+  return (
+    <div className="fixed bottom-48 right-4 bg-black bg-opacity-70 text-white text-xs p-3 rounded-lg z-40 w-48 space-y-2">
+      <div className="font-bold text-sm border-b border-gray-600 pb-1">Network</div>
+
+      <label className="block">
+        Latency: {conditions.latency}ms
+        <input
+          type="range"
+          min={0}
+          max={500}
+          step={10}
+          value={conditions.latency}
+          onChange={(e) => update({ latency: Number(e.target.value) })}
+          className="w-full accent-green-500"
+        />
+      </label>
+
+      <label className="block">
+        Jitter: {conditions.jitter}ms
+        <input
+          type="range"
+          min={0}
+          max={200}
+          step={5}
+          value={conditions.jitter}
+          onChange={(e) => update({ jitter: Number(e.target.value) })}
+          className="w-full accent-green-500"
+        />
+      </label>
+
+      <label className="block">
+        Loss: {Math.round(conditions.packetLoss * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={0.3}
+          step={0.01}
+          value={conditions.packetLoss}
+          onChange={(e) => update({ packetLoss: Number(e.target.value) })}
+          className="w-full accent-green-500"
+        />
+      </label>
+
+      {stats && (
+        <div className="text-gray-300 pt-1 border-t border-gray-600">
+          <div>Snapshots buffered: {stats.bufferedSnapshots}</div>
+          <div>Unacked inputs: {stats.pendingInputs}</div>
+          <div>Last correction: {stats.lastCorrection.toFixed(1)}px</div>
+        </div>
+      )}
+    </div>
+  );
+}
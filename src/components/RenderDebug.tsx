@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { RenderStats } from '../render/Renderer';
+
+interface RenderDebugProps {
+  getStats: () => RenderStats | null;
+}
+
+export default function RenderDebug({ getStats }: RenderDebugProps) {
+  const [stats, setStats] = useState<RenderStats | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setStats(getStats()), 250);
+    return () => clearInterval(interval);
+  }, [getStats]);
+
+  if (!stats) return null;
+
+  return (
+    <div className="fixed bottom-48 left-4 bg-black bg-opacity-70 text-white text-xs p-3 rounded-lg z-40 w-48 space-y-1">
+      <div className="font-bold text-sm border-b border-gray-600 pb-1">Rendering</div>
+      <div>Food: {stats.food} / {stats.totalFood}</div>
+      <div>Segments: {stats.segments} / {stats.totalSegments}</div>
+      <div>Snakes: {stats.snakes}</div>
+      <div>Labels: {stats.labels}</div>
+      <div>Particles: {stats.particles}</div>
+      <div>Detail: {stats.lowDetail ? 'low' : 'full'}</div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Play, Pause, RotateCcw, Download, X, Move, Crosshair } from 'lucide-react';
+import { GameEngine, ReplayProgress } from '../game/GameEngine';
+import { TICK_RATE } from '../game/Simulation';
+import { useFreeCamera } from '../hooks/useFreeCamera';
+
+interface ReplayViewerProps {
+  engine: GameEngine;
+  title: string;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+function formatTime(ticks: number) {
+  const seconds = Math.max(0, Math.floor(ticks / TICK_RATE));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export default function ReplayViewer({ engine, title, onExport, onExit }: ReplayViewerProps) {
+  const [progress, setProgress] = useState<ReplayProgress | null>(engine.getReplayProgress());
+
+  useEffect(() => {
+    const interval = setInterval(() => setProgress(engine.getReplayProgress()), 100);
+    return () => clearInterval(interval);
+  }, [engine]);
+
+  useFreeCamera(engine);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      const current = engine.getReplayProgress();
+      if (current) engine.setPaused(!current.isPaused);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [engine]);
+
+  if (!progress) return null;
+
+  const elapsed = progress.tick - progress.startTick;
+  const duration = progress.endTick - progress.startTick;
+  const finished = progress.tick >= progress.endTick;
+
+  function togglePlay() {
+    const current = engine.getReplayProgress();
+    if (!current) return;
+
+    if (current.tick >= current.endTick) {
+      engine.seekReplay(current.startTick);
+      engine.setPaused(false);
+    } else {
+      engine.setPaused(!current.isPaused);
+    }
+    setProgress(engine.getReplayProgress());
+  }
+
+  return (
+    <>
+      <div className="fixed top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white px-4 py-2 rounded-lg z-40 text-sm">
+        <span className="text-red-400 font-bold mr-2">REPLAY</span>
+        {title}
+        {progress.freeCamera && <span className="text-gray-400 ml-2">Drag, WASD or wheel to move the camera</span>}
+      </div>
+
+      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-gray-900 bg-opacity-90 text-white p-3 rounded-xl z-40 w-full max-w-2xl border-2 border-gray-700 flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          className="p-2 rounded-lg bg-green-600 hover:bg-green-700 transition-colors"
+        >
+          {progress.isPaused || finished ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+        </button>
+
+        <button
+          onClick={() => engine.seekReplay(progress.startTick)}
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <RotateCcw className="w-5 h-5" />
+        </button>
+
+        <span className="text-xs tabular-nums w-10 text-right">{formatTime(elapsed)}</span>
+        <input
+          type="range"
+          min={progress.startTick}
+          max={progress.endTick}
+          value={progress.tick}
+          onChange={(e) => engine.seekReplay(Number(e.target.value))}
+          className="flex-1 accent-green-500"
+        />
+        <span className="text-xs tabular-nums w-10">{formatTime(duration)}</span>
+
+        <div className="flex gap-1">
+          {SPEEDS.map((speed) => (
+            <button
+              key={speed}
+              onClick={() => engine.setPlaybackSpeed(speed)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                progress.speed === speed ? 'bg-green-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => engine.setFreeCamera(!progress.freeCamera)}
+          title={progress.freeCamera ? 'Follow player' : 'Free camera'}
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          {progress.freeCamera ? <Crosshair className="w-5 h-5" /> : <Move className="w-5 h-5" />}
+        </button>
+
+        <button
+          onClick={onExport}
+          title="Export replay"
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <Download className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={onExit}
+          title="Exit replay"
+          className="p-2 rounded-lg bg-red-600 hover:bg-red-700 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </>
+  );
+}
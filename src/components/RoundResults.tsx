@@ -0,0 +1,70 @@
+import { Trophy } from 'lucide-react';
+import { ModeState } from '../types/game';
+import { getGameMode } from '../game/GameMode';
+
+interface RoundResultsProps {
+  mode: ModeState;
+  standings: { username: string; score: number; isPlayer: boolean }[];
+  onPlayAgain?: () => void;
+  onMenu: () => void;
+}
+
+export default function RoundResults({ mode, standings, onPlayAgain, onMenu }: RoundResultsProps) {
+  const teams = mode.teams.slice().sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-900 p-8 rounded-2xl shadow-2xl max-w-md w-full mx-4 border-2 border-yellow-500">
+        <div className="text-center mb-6">
+          <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-2" />
+          <h2 className="text-3xl font-bold text-yellow-400 mb-1">Round Over</h2>
+          <p className="text-gray-400">{getGameMode(mode.id).name}</p>
+          <p className="text-xl text-white mt-2">{mode.winner ? `${mode.winner} wins!` : 'Draw'}</p>
+        </div>
+
+        {teams.length > 0 && (
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {teams.map((team) => (
+              <div key={team.id} className="bg-gray-800 p-3 rounded-lg text-center">
+                <div className="text-sm font-bold" style={{ color: team.color }}>{team.name}</div>
+                <div className="text-2xl font-bold text-white">{team.score}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1 mb-6 max-h-64 overflow-y-auto">
+          {standings.map((entry, index) => (
+            <div
+              key={index}
+              className={`flex justify-between bg-gray-800 px-3 py-2 rounded-lg text-sm ${
+                entry.isPlayer ? 'text-yellow-400 font-bold' : 'text-gray-300'
+              }`}
+            >
+              <span className="truncate flex-1">{index + 1}. {entry.username}</span>
+              <span className="ml-2">{entry.score}</span>
+            </div>
+          ))}
+        </div>
+
+        {onPlayAgain ? (
+          <button
+            onClick={onPlayAgain}
+            className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white font-bold py-4 px-6 rounded-lg text-xl transition-all duration-200 transform hover:scale-105"
+          >
+            Play Again
+          </button>
+        ) : (
+          <p className="text-center text-gray-400">Next round starting soon…</p>
+        )}
+
+        <button
+          onClick={onMenu}
+          className="w-full bg-gray-700 hover:bg-gray-600 text-white font-medium py-3 px-4 rounded-lg mt-3 transition-colors"
+        >
+          Main Menu
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { SnakeSegment } from '../types/game';
+import { drawSkinnedBody } from '../render/Skins';
+
+interface SkinPreviewProps {
+  color: string;
+  skin: string;
+}
+
+const SEGMENT_COUNT = 16;
+const SEGMENT_SPACING = 11;
+const SEGMENT_RADIUS = 9;
+
+export default function SkinPreview({ color, skin }: SkinPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    const draw = (time: number) => {
+      const centerY = canvas.height / 2;
+      const headX = canvas.width - SEGMENT_RADIUS * 3;
+      const segments: SnakeSegment[] = [];
+      for (let i = 0; i < SEGMENT_COUNT; i++) {
+        segments.push({
+          x: headX - i * SEGMENT_SPACING,
+          y: centerY + Math.sin(time / 300 - i * 0.45) * 10,
+          radius: SEGMENT_RADIUS
+        });
+      }
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawSkinnedBody(ctx, color, skin, segments, segments.map((_, i) => SEGMENT_COUNT - 1 - i), time, true);
+
+      const head = segments[0];
+      const direction = Math.atan2(head.y - segments[1].y, head.x - segments[1].x);
+      ctx.save();
+      ctx.translate(head.x, head.y);
+      ctx.rotate(direction);
+      [-1, 1].forEach(side => {
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        ctx.arc(head.radius * 0.3, side * head.radius * 0.3, head.radius * 0.25, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = 'black';
+        ctx.beginPath();
+        ctx.arc(head.radius * 0.35, side * head.radius * 0.3, head.radius * 0.15, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.restore();
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [color, skin]);
+
+  return <canvas ref={canvasRef} width={240} height={48} className="w-full h-12 bg-gray-800 rounded-lg" />;
+}
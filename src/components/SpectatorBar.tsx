@@ -0,0 +1,70 @@
+import { ChevronLeft, ChevronRight, Crosshair, Move, Skull, RotateCcw } from 'lucide-react';
+import { GameEngine } from '../game/GameEngine';
+import { Snake } from '../types/game';
+import { useFreeCamera } from '../hooks/useFreeCamera';
+
+interface SpectatorBarProps {
+  engine: GameEngine;
+  target: Snake | null;
+  freeCamera: boolean;
+  onRespawn: () => void;
+}
+
+export default function SpectatorBar({ engine, target, freeCamera, onRespawn }: SpectatorBarProps) {
+  useFreeCamera(engine);
+
+  return (
+    <>
+      <div className="fixed top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white px-4 py-2 rounded-lg z-40 text-sm">
+        <span className="text-blue-400 font-bold mr-2">SPECTATING</span>
+        {freeCamera ? (
+          <span className="text-gray-400">Drag, WASD or wheel to move the camera</span>
+        ) : (
+          target?.username ?? 'Nobody left alive'
+        )}
+      </div>
+
+      <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-gray-900 bg-opacity-90 text-white p-3 rounded-xl z-40 border-2 border-gray-700 flex items-center gap-2">
+        <button
+          onClick={() => engine.spectateKiller()}
+          title="Follow your killer"
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <Skull className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => engine.cycleSpectateTarget(-1)}
+          title="Previous snake"
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => engine.cycleSpectateTarget(1)}
+          title="Next snake"
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => engine.setFreeCamera(!freeCamera)}
+          title={freeCamera ? 'Follow a snake' : 'Free camera'}
+          className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          {freeCamera ? <Crosshair className="w-5 h-5" /> : <Move className="w-5 h-5" />}
+        </button>
+
+        <button
+          onClick={onRespawn}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 font-bold transition-colors"
+        >
+          <RotateCcw className="w-5 h-5" />
+          Respawn
+        </button>
+      </div>
+    </>
+  );
+}
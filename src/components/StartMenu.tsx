@@ -1,30 +1,66 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { Zap, Upload as UploadIcon, X } from 'lucide-react';
+import { Zap, Upload as UploadIcon, X, Globe, Film, SlidersHorizontal, Map as MapIcon, PenTool, Monitor, Lock, Sparkles } from 'lucide-react';
 import FaceUpload from './FaceUpload';
+import SkinPreview from './SkinPreview';
 import { getOrCreateProfile, removeFaceImage, Profile } from '../services/ProfileService';
+import { AIDifficulty, ArenaShape, GameMap, GameModeId, GameRules, StartOptions } from '../types/game';
+import { GAME_MODES, getGameMode } from '../game/GameMode';
+import { AI_DIFFICULTIES, getAIDifficulty } from '../game/AI';
+import { RULES_PRESETS } from '../game/GameRules';
+import { ARENA_SHAPES, BUILTIN_MAPS, createOpenMap, isInsideArena } from '../game/GameMap';
+import { Replay } from '../game/Replay';
+import { readReplayFile } from '../services/ReplayService';
+import { readRulesFile } from '../services/RulesService';
+import { readMapFile } from '../services/MapService';
+import { RENDERERS, RendererKind } from '../render/Renderer';
+import { PARTICLE_QUALITIES, ParticleQuality } from '../render/Particles';
+import { registerSkins } from '../render/Skins';
+import { Skin, describeRequirement, getSkins, getUnlockedSkinIds, isSkinUnlocked } from '../services/SkinService';
 
 interface StartMenuProps {
-  onStart: (username: string, color: string, skin: string, faceUrl?: string) => void;
+  onStart: (username: string, color: string, skin: string, faceUrl: string | undefined, options: StartOptions) => void;
+  onWatchReplay: (replay: Replay) => void;
+  onOpenEditor: () => void;
+  renderer: RendererKind;
+  onRendererChange: (kind: RendererKind) => void;
+  particleQuality: ParticleQuality;
+  onParticleQualityChange: (quality: ParticleQuality) => void;
 }
 
-interface Skin {
-  id: string;
-  name: string;
-  unlock_level: number;
-  unlock_xp: number;
-  is_premium: boolean;
-  pattern: string;
-  glow_effect: boolean;
-}
+const DEFAULT_SERVER_URL = import.meta.env.VITE_GAME_SERVER_URL || 'ws://localhost:8080';
 
-export default function StartMenu({ onStart }: StartMenuProps) {
+export default function StartMenu({
+  onStart,
+  onWatchReplay,
+  onOpenEditor,
+  renderer,
+  onRendererChange,
+  particleQuality,
+  onParticleQualityChange
+}: StartMenuProps) {
   const [username, setUsername] = useState('');
   const [selectedColor, setSelectedColor] = useState('#00ff00');
   const [selectedSkin, setSelectedSkin] = useState('default');
   const [skins, setSkins] = useState<Skin[]>([]);
+  const [unlockedSkinIds, setUnlockedSkinIds] = useState<Set<string>>(new Set());
   const [profile, setProfile] = useState<Profile | null>(null);
   const [showFaceUpload, setShowFaceUpload] = useState(false);
+  const [playOnline, setPlayOnline] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [serverUrl, setServerUrl] = useState(localStorage.getItem('slither_server_url') || DEFAULT_SERVER_URL);
+  const [gameMode, setGameMode] = useState<GameModeId>(
+    getGameMode(localStorage.getItem('slither_game_mode') as GameModeId).id
+  );
+  const [difficulty, setDifficulty] = useState<AIDifficulty>(
+    getAIDifficulty(localStorage.getItem('slither_ai_difficulty') as AIDifficulty).id
+  );
+  const [ruleset, setRuleset] = useState<{ name: string; rules: GameRules }>(RULES_PRESETS[0]);
+  const [customRules, setCustomRules] = useState<{ name: string; rules: GameRules } | null>(null);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  const [selectedMap, setSelectedMap] = useState<GameMap | undefined>(undefined);
+  const [customMap, setCustomMap] = useState<GameMap | null>(null);
+  const [arenaShape, setArenaShape] = useState<ArenaShape>('rectangle');
+  const [mapError, setMapError] = useState<string | null>(null);
 
   const colors = [
     '#00ff00', '#ff0000', '#0000ff', '#ffff00', '#ff00ff', '#00ffff',
@@ -40,15 +76,32 @@ export default function StartMenu({ onStart }: StartMenuProps) {
     }
   }, []);
 
-  async function loadSkins() {
-    const { data } = await supabase
-      .from('skins')
-      .select('*')
-      .order('unlock_level');
+  useEffect(() => {
+    // Another name's unlocks must not carry over while this one's are still loading.
+    setUnlockedSkinIds(new Set());
+    const name = username.trim();
+    if (!name) return;
 
-    if (data) {
-      setSkins(data);
-    }
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const unlocked = await getUnlockedSkinIds(name);
+      if (cancelled) return;
+      setUnlockedSkinIds(unlocked);
+      setSelectedSkin(current => {
+        const skin = skins.find(candidate => candidate.name === current);
+        return skin && !isSkinUnlocked(skin, unlocked) ? 'default' : current;
+      });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [username, skins]);
+
+  async function loadSkins() {
+    const data = await getSkins();
+    registerSkins(data);
+    setSkins(data);
   }
 
   async function loadProfile(username: string) {
@@ -58,10 +111,77 @@ export default function StartMenu({ onStart }: StartMenuProps) {
     }
   }
 
+  function chooseMap(map: GameMap | undefined) {
+    setSelectedMap(map);
+    setArenaShape(map?.shape ?? 'rectangle');
+  }
+
+  function buildMap(): GameMap | undefined {
+    const base = selectedMap ?? (arenaShape === 'rectangle'
+      ? undefined
+      : createOpenMap(ruleset.rules.mapWidth, ruleset.rules.mapHeight));
+    if (!base || base.shape === arenaShape) return base;
+
+    const reshaped = { ...base, shape: arenaShape };
+    return { ...reshaped, spawns: base.spawns.filter(spawn => isInsideArena(reshaped, spawn.x, spawn.y, 100)) };
+  }
+
+  const selectedSkinInfo = skins.find((skin) => skin.name === selectedSkin);
+  const skinLocked = !!selectedSkinInfo && !isSkinUnlocked(selectedSkinInfo, unlockedSkinIds);
+
   function handleStart() {
-    if (username.trim()) {
+    if (username.trim() && !skinLocked) {
       localStorage.setItem('slither_username', username.trim());
-      onStart(username.trim(), selectedColor, selectedSkin, profile?.face_url || undefined);
+      if (playOnline) {
+        localStorage.setItem('slither_server_url', serverUrl.trim());
+      } else {
+        localStorage.setItem('slither_game_mode', gameMode);
+        localStorage.setItem('slither_ai_difficulty', difficulty);
+      }
+      onStart(username.trim(), selectedColor, selectedSkin, profile?.face_url || undefined, {
+        serverUrl: playOnline ? serverUrl.trim() : undefined,
+        mode: gameMode,
+        rules: ruleset.rules,
+        map: buildMap(),
+        difficulty
+      });
+    }
+  }
+
+  async function handleReplayFile(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      setReplayError(null);
+      onWatchReplay(await readReplayFile(file));
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : 'Could not read replay');
+    }
+  }
+
+  async function handleRulesFile(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      setRulesError(null);
+      const custom = { name: file.name.replace(/\.json$/i, ''), rules: await readRulesFile(file) };
+      setCustomRules(custom);
+      setRuleset(custom);
+    } catch (error) {
+      setRulesError(error instanceof Error ? error.message : 'Could not read ruleset');
+    }
+  }
+
+  async function handleMapFile(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      setMapError(null);
+      const map = await readMapFile(file);
+      setCustomMap(map);
+      chooseMap(map);
+    } catch (error) {
+      setMapError(error instanceof Error ? error.message : 'Could not read map');
     }
   }
 
@@ -132,21 +252,35 @@ export default function StartMenu({ onStart }: StartMenuProps) {
               Select Skin
             </label>
             <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
-              {skins.map((skin) => (
-                <button
-                  key={skin.id}
-                  onClick={() => setSelectedSkin(skin.name)}
-                  className={`px-3 py-2 rounded-lg transition-all text-sm ${
-                    selectedSkin === skin.name
-                      ? 'bg-green-600 text-white'
-                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-                  }`}
-                >
-                  {skin.name}
-                  {skin.glow_effect && ' ✨'}
-                </button>
-              ))}
+              {skins.map((skin) => {
+                const locked = !isSkinUnlocked(skin, unlockedSkinIds);
+                return (
+                  <button
+                    key={skin.id}
+                    onClick={() => setSelectedSkin(skin.name)}
+                    title={locked ? `Unlocks at ${describeRequirement(skin)}` : undefined}
+                    className={`flex items-center justify-center gap-1 px-3 py-2 rounded-lg transition-all text-sm ${
+                      selectedSkin === skin.name
+                        ? locked ? 'bg-gray-600 text-white' : 'bg-green-600 text-white'
+                        : locked ? 'bg-gray-800 text-gray-500 hover:bg-gray-700' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {locked && <Lock className="w-3 h-3" />}
+                    {skin.name}
+                    {skin.glow_effect && ' ✨'}
+                    {locked && <span className="text-xs text-gray-400">({describeRequirement(skin)})</span>}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="mt-2">
+              <SkinPreview color={selectedColor} skin={selectedSkin} />
             </div>
+            {skinLocked && selectedSkinInfo && (
+              <p className="text-xs text-red-400 mt-1">
+                The {selectedSkinInfo.name} skin is locked ({describeRequirement(selectedSkinInfo)}).
+              </p>
+            )}
           </div>
 
           <div>
@@ -192,13 +326,217 @@ export default function StartMenu({ onStart }: StartMenuProps) {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Game Mode
+            </label>
+            {playOnline ? (
+              <p className="text-xs text-gray-500">Online games use the mode chosen by the server.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {GAME_MODES.map((mode) => (
+                    <button
+                      key={mode.id}
+                      onClick={() => setGameMode(mode.id)}
+                      className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                        gameMode === mode.id
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {mode.name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{getGameMode(gameMode).description}</p>
+                <div className="flex items-center gap-2 mt-3">
+                  <span className="text-xs text-gray-400">Bots</span>
+                  {AI_DIFFICULTIES.map((preset) => (
+                    <button
+                      key={preset.id}
+                      onClick={() => setDifficulty(preset.id)}
+                      className={`flex-1 px-3 py-1 rounded-lg transition-all text-sm ${
+                        difficulty === preset.id
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 mt-3">
+                  <select
+                    value={ruleset === customRules ? ':custom' : RULES_PRESETS.find((preset) => preset === ruleset)?.id}
+                    onChange={(e) => setRuleset(
+                      e.target.value === ':custom' && customRules
+                        ? customRules
+                        : RULES_PRESETS.find((preset) => preset.id === e.target.value) ?? RULES_PRESETS[0]
+                    )}
+                    className="flex-1 px-3 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none"
+                  >
+                    {RULES_PRESETS.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{preset.name} rules</option>
+                    ))}
+                    {customRules && <option value=":custom">{customRules.name} (custom)</option>}
+                  </select>
+                  <label
+                    title="Load a ruleset JSON file"
+                    className="p-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors cursor-pointer"
+                  >
+                    <SlidersHorizontal className="w-5 h-5" />
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleRulesFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {rulesError && <p className="text-xs text-red-400 mt-1">{rulesError}</p>}
+                <div className="flex items-center gap-2 mt-2">
+                  <select
+                    value={selectedMap === customMap && customMap ? ':custom' : selectedMap?.id ?? 'open'}
+                    onChange={(e) => chooseMap(
+                      e.target.value === ':custom' && customMap
+                        ? customMap
+                        : BUILTIN_MAPS.find((map) => map.id === e.target.value)
+                    )}
+                    className="flex-1 px-3 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none"
+                  >
+                    <option value="open">Open Arena map</option>
+                    {BUILTIN_MAPS.map((map) => (
+                      <option key={map.id} value={map.id}>{map.name} map</option>
+                    ))}
+                    {customMap && <option value=":custom">{customMap.name} (custom)</option>}
+                  </select>
+                  <select
+                    value={arenaShape}
+                    onChange={(e) => setArenaShape(e.target.value as ArenaShape)}
+                    title="Arena shape"
+                    className="px-3 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none"
+                  >
+                    {ARENA_SHAPES.map((shape) => (
+                      <option key={shape.id} value={shape.id}>{shape.name}</option>
+                    ))}
+                  </select>
+                  <label
+                    title="Load a map JSON file"
+                    className="p-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors cursor-pointer"
+                  >
+                    <MapIcon className="w-5 h-5" />
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleMapFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {mapError && <p className="text-xs text-red-400 mt-1">{mapError}</p>}
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={playOnline}
+                onChange={(e) => setPlayOnline(e.target.checked)}
+                className="accent-green-500"
+              />
+              <Globe className="w-4 h-4" />
+              Play Online
+            </label>
+            {playOnline && (
+              <input
+                type="text"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="ws://localhost:8080"
+                className="w-full px-4 py-2 bg-gray-800 text-white text-sm rounded-lg border-2 border-gray-700 focus:border-green-500 focus:outline-none transition-colors"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="flex items-center gap-2 text-xs text-gray-400">
+              <Monitor className="w-4 h-4" />
+              Renderer
+            </span>
+            {RENDERERS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => onRendererChange(option.id)}
+                className={`flex-1 px-3 py-1 rounded-lg transition-all text-sm ${
+                  renderer === option.id
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="flex items-center gap-2 text-xs text-gray-400">
+              <Sparkles className="w-4 h-4" />
+              Effects
+            </span>
+            {PARTICLE_QUALITIES.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => onParticleQualityChange(option.id)}
+                className={`flex-1 px-2 py-1 rounded-lg transition-all text-sm ${
+                  particleQuality === option.id
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+
           <button
             onClick={handleStart}
-            disabled={!username.trim()}
+            disabled={!username.trim() || skinLocked || (playOnline && !serverUrl.trim())}
             className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 disabled:from-gray-700 disabled:to-gray-700 text-white font-bold py-4 px-6 rounded-lg text-xl transition-all duration-200 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed"
           >
             Start Game
           </button>
+
+          <label className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm font-medium py-2 px-4 rounded-lg transition-colors cursor-pointer">
+            <Film className="w-4 h-4" />
+            Watch a Replay File
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleReplayFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {replayError && <p className="text-xs text-red-400 text-center">{replayError}</p>}
+
+          <button
+            onClick={onOpenEditor}
+            className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <PenTool className="w-4 h-4" />
+            Map Editor
+          </button>
         </div>
 
         {showFaceUpload && profile && (
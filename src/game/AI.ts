@@ -0,0 +1,225 @@
+import { AIDifficulty, AIPersonality, GameState, Snake, SnakeInput, Vector2 } from '../types/game';
+import { wrapIntoArena } from './GameMap';
+import { BotController, BotView, SnakeView, createBotView } from './BotController';
+
+export interface AIDifficultyPreset {
+  id: AIDifficulty;
+  name: string;
+  reactionTicks: number;
+  visionRange: number;
+}
+
+export const AI_DIFFICULTIES: AIDifficultyPreset[] = [
+  { id: 'easy', name: 'Easy', reactionTicks: 20, visionRange: 220 },
+  { id: 'normal', name: 'Normal', reactionTicks: 8, visionRange: 320 },
+  { id: 'hard', name: 'Hard', reactionTicks: 3, visionRange: 480 }
+];
+
+export function getAIDifficulty(id: AIDifficulty): AIDifficultyPreset {
+  return AI_DIFFICULTIES.find(preset => preset.id === id) ?? AI_DIFFICULTIES[1];
+}
+
+interface Personality {
+  food: number;
+  hunt: number;
+  fear: number;
+  // A bot only hunts snakes lighter than its own mass divided by this.
+  preyRatio: number;
+}
+
+const PERSONALITIES: Record<AIPersonality, Personality> = {
+  greedy: { food: 1.5, hunt: 0.4, fear: 0.8, preyRatio: 2 },
+  aggressive: { food: 0.7, hunt: 1.6, fear: 0.4, preyRatio: 1.1 },
+  cautious: { food: 1, hunt: 0, fear: 1.6, preyRatio: Infinity }
+};
+
+const RAY_COUNT = 16;
+const RAY_SAMPLES = 6;
+const DANGER_WEIGHT = 8;
+const TURN_COST = 0.3;
+const POWER_UP_VALUE = 5;
+const ENCIRCLE_MIN_SEGMENTS = 30;
+
+function isTeammate(a: SnakeView, b: SnakeView): boolean {
+  return !!a.team && a.team === b.team;
+}
+
+function angleTo(view: BotView, from: Vector2, to: Vector2): number {
+  const delta = view.delta(from, to);
+  return Math.atan2(delta.y, delta.x);
+}
+
+// Walks a ray out from the head and returns how much of it (0..1) is clear of bodies, obstacles and the arena edge.
+function castRay(view: BotView, angle: number, length: number, avoidBodies: boolean): number {
+  const head = view.self.head;
+
+  for (let i = 1; i <= RAY_SAMPLES; i++) {
+    const distance = (length * i) / RAY_SAMPLES;
+    const probe = { x: head.x + Math.cos(angle) * distance, y: head.y + Math.sin(angle) * distance };
+    wrapIntoArena(view.map, probe);
+
+    if (!view.isClear(probe.x, probe.y, head.radius, !avoidBodies)) return (i - 1) / RAY_SAMPLES;
+  }
+
+  return 1;
+}
+
+// Leads the prey's head so the bot cuts across its path; once long enough and close, it orbits the head to wrap its body around it.
+function attackPoint(view: BotView, prey: SnakeView): Vector2 {
+  const { self } = view;
+  const head = self.head;
+  const preyHead = prey.head;
+  const distance = view.distance(head, preyHead);
+
+  if (self.segments.length >= ENCIRCLE_MIN_SEGMENTS && distance < head.radius * 15) {
+    const orbit = angleTo(view, preyHead, head) + 0.8;
+    const radius = head.radius * 6;
+    return { x: preyHead.x + Math.cos(orbit) * radius, y: preyHead.y + Math.sin(orbit) * radius };
+  }
+
+  const lead = Math.min(distance, 200) * (prey.speed / Math.max(self.speed, 0.1));
+  return { x: preyHead.x + Math.cos(prey.direction) * lead, y: preyHead.y + Math.sin(prey.direction) * lead };
+}
+
+function think(view: BotView): SnakeInput {
+  const { self, visionRange: vision } = view;
+  const head = self.head;
+  const personality = PERSONALITIES[view.personality];
+  const avoidBodies = !self.effects.includes('ghost') && !self.effects.includes('shield');
+  const rayLength = head.radius * 3 + self.speed * 25;
+
+  // Summing every visible pellet rather than picking the nearest one pulls bots towards dense clusters.
+  const lures: { angle: number; weight: number }[] = [];
+  view.foods.forEach(food => {
+    lures.push({ angle: angleTo(view, head, food), weight: food.value / (1 + view.distance(head, food) / 100) });
+  });
+  view.powerUps.forEach(powerUp => {
+    lures.push({ angle: angleTo(view, head, powerUp), weight: POWER_UP_VALUE / (1 + view.distance(head, powerUp) / 100) });
+  });
+
+  const neighbours = view.snakes
+    .filter(other => !isTeammate(self, other))
+    .map(other => ({ snake: other, distance: view.distance(head, other.head) }));
+
+  const threats = avoidBodies ? neighbours.filter(({ snake: other }) => other.mass > self.mass * 0.8) : [];
+  const prey = neighbours
+    .filter(({ snake: other }) => other.mass * personality.preyRatio < self.mass)
+    .sort((a, b) => a.distance - b.distance)[0];
+  const target = prey && personality.hunt > 0 ? attackPoint(view, prey.snake) : null;
+  const targetAngle = target ? angleTo(view, head, target) : 0;
+  const dangers = threats.map(({ snake: other, distance }) => ({
+    angle: angleTo(view, head, other.head),
+    weight: 1 - distance / vision
+  }));
+  const wander = lures.length === 0 && !target
+    ? self.direction + (view.random() - 0.5) * 1.5
+    : null;
+
+  let bestAngle = self.direction;
+  let bestScore = -Infinity;
+
+  for (let i = 0; i < RAY_COUNT; i++) {
+    const offset = ((i / RAY_COUNT) * 2 - 1) * Math.PI;
+    const angle = self.direction + offset;
+    const clearance = castRay(view, angle, rayLength, avoidBodies);
+
+    let score = -(1 - clearance) * DANGER_WEIGHT - (Math.abs(offset) / Math.PI) * TURN_COST;
+
+    let appetite = 0;
+    lures.forEach(lure => {
+      appetite += lure.weight * Math.max(0, Math.cos(lure.angle - angle));
+    });
+    score += personality.food * Math.min(appetite, 4) * 0.5;
+
+    if (target) {
+      score += personality.hunt * Math.cos(targetAngle - angle) * 1.5;
+    }
+
+    dangers.forEach(danger => {
+      score -= personality.fear * Math.cos(danger.angle - angle) * danger.weight * 3;
+    });
+
+    if (wander !== null) {
+      score += Math.cos(wander - angle) * 0.5;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  const closeThreat = threats.some(({ distance }) => distance < vision * 0.35);
+  const closingIn = !!target && !!prey && prey.distance < vision * 0.6 && personality.hunt > 1;
+  return {
+    targetDirection: bestAngle,
+    boost: self.mass > view.rules.minBoostMass * 2 && ((closeThreat && personality.fear > 0.6) || closingIn)
+  };
+}
+
+const utilityBot: BotController = {
+  id: 'default',
+  name: 'Utility AI',
+  decide: think
+};
+
+// A deliberately simple baseline: chase the nearest pellet and only turn away when the way ahead is blocked.
+const foragerBot: BotController = {
+  id: 'forager',
+  name: 'Forager',
+  decide(view) {
+    const { self } = view;
+    const head = self.head;
+
+    let nearest: Vector2 | null = null;
+    let nearestDistance = Infinity;
+    view.foods.forEach(food => {
+      const distance = view.distance(head, food);
+      if (distance < nearestDistance) {
+        nearest = food;
+        nearestDistance = distance;
+      }
+    });
+
+    let direction = nearest ? angleTo(view, head, nearest) : self.direction;
+    const lookAhead = head.radius * 3 + self.speed * 15;
+    for (let i = 0; i < 8 && castRay(view, direction, lookAhead, true) < 1; i++) {
+      direction += (i % 2 === 0 ? 1 : -1) * (i + 1) * (Math.PI / 8);
+    }
+
+    return { targetDirection: direction, boost: false };
+  }
+};
+
+const BOTS: BotController[] = [utilityBot, foragerBot];
+
+export function registerBot(bot: BotController) {
+  if (BOTS.some(existing => existing.id === bot.id)) {
+    throw new Error(`A bot with id "${bot.id}" is already registered`);
+  }
+  BOTS.push(bot);
+}
+
+export function getBot(id: string): BotController | undefined {
+  return BOTS.find(bot => bot.id === id);
+}
+
+export function getBots(): readonly BotController[] {
+  return BOTS;
+}
+
+export function updateAI(snake: Snake, state: GameState) {
+  if (!snake.brain) {
+    snake.brain = { personality: 'greedy', nextThinkTick: state.tick };
+  }
+  if (state.tick < snake.brain.nextThinkTick) return;
+
+  const difficulty = getAIDifficulty(state.aiDifficulty);
+  // A tick of jitter keeps bots spawned together from all thinking on the same tick.
+  snake.brain.nextThinkTick = state.tick + Math.max(1, difficulty.reactionTicks + state.random.int(3) - 1);
+
+  const bot = getBot(snake.brain.bot ?? utilityBot.id) ?? utilityBot;
+  const input = bot.decide(createBotView(snake, state, difficulty.visionRange));
+  snake.targetDirection = input.targetDirection;
+  snake.isBoosting = input.boost;
+}
@@ -0,0 +1,106 @@
+import {
+  AIPersonality, Food, GameMap, GameRules, GameState, PowerUp, PowerUpType, Snake, SnakeInput, SnakeSegment, Vector2
+} from '../types/game';
+import { arenaDelta, calculateDistance } from './GameUtils';
+import { hitsObstacle, isInsideArena } from './GameMap';
+
+export interface SnakeView {
+  readonly id: string;
+  readonly username: string;
+  readonly team?: string;
+  readonly head: Readonly<SnakeSegment>;
+  readonly segments: readonly Readonly<SnakeSegment>[];
+  readonly direction: number;
+  readonly speed: number;
+  readonly mass: number;
+  readonly score: number;
+  readonly isBoosting: boolean;
+  readonly effects: readonly PowerUpType[];
+}
+
+// Everything a bot may look at when it thinks. Snakes, food and power-ups are limited to the vision range.
+export interface BotView {
+  readonly tick: number;
+  readonly self: SnakeView;
+  readonly personality: AIPersonality;
+  readonly visionRange: number;
+  readonly snakes: readonly SnakeView[];
+  readonly foods: readonly Readonly<Food>[];
+  readonly powerUps: readonly Readonly<PowerUp>[];
+  readonly map: Readonly<GameMap>;
+  readonly rules: Readonly<GameRules>;
+  delta(from: Vector2, to: Vector2): Vector2;
+  distance(from: Vector2, to: Vector2): number;
+  // False when a circle at (x, y) would hit the arena edge, the royale zone, an obstacle or, unless ignored, another body.
+  isClear(x: number, y: number, radius: number, ignoreBodies?: boolean): boolean;
+  // Bots must draw randomness from here so matches and replays stay deterministic.
+  random(): number;
+}
+
+export interface BotController {
+  readonly id: string;
+  readonly name: string;
+  decide(view: BotView): SnakeInput;
+}
+
+function viewSnake(snake: Snake): SnakeView {
+  return {
+    id: snake.id,
+    username: snake.username,
+    team: snake.team,
+    head: snake.segments[0],
+    segments: snake.segments,
+    direction: snake.direction,
+    speed: snake.speed,
+    mass: snake.mass,
+    score: snake.score,
+    isBoosting: snake.isBoosting,
+    effects: snake.effects ? (Object.keys(snake.effects) as PowerUpType[]) : []
+  };
+}
+
+function isTeammate(a: Snake, b: Snake): boolean {
+  return !!a.team && a.team === b.team;
+}
+
+export function createBotView(snake: Snake, state: GameState, visionRange: number): BotView {
+  const { map, spatial, random } = state;
+  const head = snake.segments[0];
+  const zone = state.mode.zone;
+
+  const snakes: SnakeView[] = [];
+  state.snakes.forEach(other => {
+    if (other === snake || other.isDead) return;
+    const otherHead = other.segments[0];
+    if (calculateDistance(head.x, head.y, otherHead.x, otherHead.y, map) < visionRange) {
+      snakes.push(viewSnake(other));
+    }
+  });
+
+  return {
+    tick: state.tick,
+    self: viewSnake(snake),
+    personality: snake.brain?.personality ?? 'greedy',
+    visionRange,
+    snakes,
+    foods: spatial.queryFood(head.x, head.y, visionRange, map)
+      .filter(food => calculateDistance(head.x, head.y, food.x, food.y, map) < visionRange),
+    powerUps: state.powerUps
+      .filter(powerUp => calculateDistance(head.x, head.y, powerUp.x, powerUp.y, map) < visionRange),
+    map,
+    rules: state.rules,
+    delta: (from, to) => arenaDelta(map, from.x, from.y, to.x, to.y),
+    distance: (from, to) => calculateDistance(from.x, from.y, to.x, to.y, map),
+    isClear(x, y, radius, ignoreBodies = false) {
+      if (!isInsideArena(map, x, y, radius) || hitsObstacle(map, x, y, radius)) return false;
+      if (zone && calculateDistance(x, y, zone.x, zone.y, map) > zone.radius - radius) return false;
+      if (ignoreBodies) return true;
+
+      return !spatial.querySegments(x, y, radius, map).some(({ snake: other, segment }) =>
+        other !== snake && !other.isDead && !isTeammate(snake, other) &&
+        calculateDistance(x, y, segment.x, segment.y, map) < radius + segment.radius
+      );
+    },
+    random: () => random.next()
+  };
+}
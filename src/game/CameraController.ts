@@ -0,0 +1,141 @@
+import { GameMap, Snake, Vector2 } from '../types/game';
+import { arenaDelta } from './GameUtils';
+import { wrapIntoArena } from './GameMap';
+
+export interface CameraView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Follows a snake with damping, leads it in its direction of travel and eases the zoom as it grows; with
+// no snake to follow it stays wherever it is panned. Shake is applied to the view only, so it never drifts
+// the camera itself.
+export class CameraController {
+  public x: number = 0;
+  public y: number = 0;
+  public zoom: number = 1;
+  private target: Snake | null = null;
+  private targetZoom: number = 1;
+  // Wheel and pinch zoom while following, on top of the zoom picked from the snake's mass.
+  private zoomScale: number = 1;
+  private minZoom: number;
+  private trauma: number = 0;
+  private snapping: boolean = true;
+
+  private readonly MAX_ZOOM = 2;
+  private readonly MIN_ZOOM_SCALE = 0.5;
+  private readonly MAX_ZOOM_SCALE = 2;
+  private readonly BASE_MASS = 100;
+  // Rates are per second; higher settles faster.
+  private readonly FOLLOW_RATE = 8;
+  private readonly ZOOM_RATE = 4;
+  // Lead as a fraction of the shorter screen side, and how much further ahead a boosting snake is led.
+  private readonly LOOK_AHEAD = 0.12;
+  private readonly BOOST_LOOK_AHEAD = 1.8;
+  private readonly MAX_SHAKE = 16;
+  private readonly SHAKE_DECAY = 1.6;
+
+  constructor(minZoom: number = 0.2) {
+    this.minZoom = minZoom;
+  }
+
+  public get following(): Snake | null {
+    return this.target;
+  }
+
+  // Pass null to leave the camera where it is for free panning.
+  public follow(snake: Snake | null) {
+    this.target = snake;
+    if (!snake) {
+      this.targetZoom = this.zoom;
+    }
+  }
+
+  // Jumps straight to the followed snake on the next update that has one, instead of gliding there.
+  public snap() {
+    this.snapping = true;
+  }
+
+  public moveTo(x: number, y: number, zoom: number = this.zoom) {
+    this.x = x;
+    this.y = y;
+    this.zoom = this.clampZoom(zoom);
+    this.targetZoom = this.zoom;
+  }
+
+  public setMinZoom(minZoom: number) {
+    this.minZoom = minZoom;
+    this.targetZoom = this.clampZoom(this.targetZoom);
+  }
+
+  public pan(screenDx: number, screenDy: number, map: GameMap) {
+    this.x += screenDx / this.zoom;
+    this.y += screenDy / this.zoom;
+    wrapIntoArena(map, this);
+  }
+
+  // While following this scales the automatic zoom within limits; in free mode it zooms directly.
+  public zoomBy(factor: number) {
+    if (this.target) {
+      this.zoomScale = Math.max(this.MIN_ZOOM_SCALE, Math.min(this.MAX_ZOOM_SCALE, this.zoomScale * factor));
+    } else {
+      this.targetZoom = this.clampZoom(this.targetZoom * factor);
+    }
+  }
+
+  public resetZoom() {
+    this.zoomScale = 1;
+  }
+
+  // Adds trauma in 0..1; the shake grows with its square and wears off over about a second.
+  public shake(amount: number) {
+    this.trauma = Math.min(1, this.trauma + amount);
+  }
+
+  // `focus` is where the followed snake's head is drawn this frame.
+  public update(seconds: number, focus: Vector2 | null, viewport: { width: number; height: number }, map: GameMap) {
+    const target = this.target;
+    if (target && focus) {
+      const massZoom = Math.max(0.5, Math.min(1.5, this.BASE_MASS / target.mass));
+      this.targetZoom = this.clampZoom(massZoom * this.zoomScale);
+
+      const lead = Math.min(viewport.width, viewport.height) * this.LOOK_AHEAD / this.zoom
+        * (target.isBoosting ? this.BOOST_LOOK_AHEAD : 1);
+      const goalX = focus.x + Math.cos(target.direction) * lead;
+      const goalY = focus.y + Math.sin(target.direction) * lead;
+
+      if (this.snapping) {
+        this.snapping = false;
+        this.x = goalX;
+        this.y = goalY;
+        this.zoom = this.targetZoom;
+      } else {
+        const delta = arenaDelta(map, this.x, this.y, goalX, goalY);
+        const follow = 1 - Math.exp(-this.FOLLOW_RATE * seconds);
+        this.x += delta.x * follow;
+        this.y += delta.y * follow;
+      }
+      wrapIntoArena(map, this);
+    }
+
+    // Eased in log space so zooming in and out feel equally fast.
+    this.zoom *= Math.pow(this.targetZoom / this.zoom, 1 - Math.exp(-this.ZOOM_RATE * seconds));
+    this.trauma = Math.max(0, this.trauma - this.SHAKE_DECAY * seconds);
+  }
+
+  public getView(): CameraView {
+    if (this.trauma === 0) return { x: this.x, y: this.y, zoom: this.zoom };
+
+    const offset = this.trauma * this.trauma * this.MAX_SHAKE / this.zoom;
+    return {
+      x: this.x + (Math.random() * 2 - 1) * offset,
+      y: this.y + (Math.random() * 2 - 1) * offset,
+      zoom: this.zoom
+    };
+  }
+
+  private clampZoom(zoom: number): number {
+    return Math.max(this.minZoom, Math.min(this.MAX_ZOOM, zoom));
+  }
+}
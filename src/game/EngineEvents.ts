@@ -0,0 +1,43 @@
+import { DeathCause, FoodKind, PlayerStats, SnakeTag } from '../types/game';
+
+// What `GameEngine` announces during live play. Replays and the map editor stay silent.
+export interface EngineEvents {
+  foodEaten: { snake: SnakeTag; isPlayer: boolean; kind: FoodKind; value: number; tick: number };
+  // Every death, including ones with no killer such as hitting a wall or leaving the arena.
+  snakeKilled: {
+    victim: SnakeTag;
+    killer: SnakeTag | null;
+    cause: DeathCause;
+    isPlayerVictim: boolean;
+    isPlayerKiller: boolean;
+    victimMass: number;
+    victimScore: number;
+    x: number;
+    y: number;
+    tick: number;
+  };
+  playerDied: { killer: SnakeTag | null; cause: DeathCause; stats: PlayerStats; tick: number };
+  boostStarted: { snake: SnakeTag; isPlayer: boolean; tick: number };
+  snakeSpawned: { snake: SnakeTag; isPlayer: boolean; tick: number };
+}
+
+type Listener<T> = (event: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns a function that removes the listener again.
+  public on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const listeners = this.listeners[type] ?? (this.listeners[type] = new Set());
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  public emit<K extends keyof Events>(type: K, event: Events[K]) {
+    this.listeners[type]?.forEach(listener => listener(event));
+  }
+}
+
+export type GameEventBus = EventBus<EngineEvents>;
@@ -1,37 +1,83 @@
-import { Snake, Food, GameState, Vector2 } from '../types/game';
-import { generateFood, generateAISnake } from './GameUtils';
-import { updateSnakePhysics, checkCollisions, updateAI } from './GamePhysics';
+import {
+  AIDifficulty, GameEvent, Snake, SnakeInput, SnakeSegment, GameMap, GameState, GameModeId, GameRules, PlayerStats, Vector2
+} from '../types/game';
+import { TICK_RATE, TICK_MS, createGameState } from './Simulation';
+import { createSeed } from './Random';
+import { DEFAULT_RULES } from './GameRules';
+import { arenaDelta, tagSnake } from './GameUtils';
+import { CameraController, CameraView } from './CameraController';
+import { EventBus, GameEventBus } from './EngineEvents';
+import { NetworkClient } from '../net/NetworkClient';
+import { ClientNetcode, NetcodeStats } from '../net/Netcode';
+import { LinkConditions, PERFECT_LINK } from '../net/LinkConditioner';
+import { Replay, ReplayPlayer } from './Replay';
+import { InThreadHost, SimulationHost, createSimulationHost } from './SimulationHost';
+import { MatchConfig, PLAYER_ID, PlayerProfile } from './LocalMatch';
+import { Renderer, RendererKind, RenderStats, createRenderer } from '../render/Renderer';
+import { ParticleQuality, ParticleSystem } from '../render/Particles';
+
+export interface ReplayProgress {
+  tick: number;
+  startTick: number;
+  endTick: number;
+  isPaused: boolean;
+  speed: number;
+  freeCamera: boolean;
+}
 
 export class GameEngine {
+  readonly events: GameEventBus = new EventBus();
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private renderer: Renderer;
+  private particles: ParticleSystem = new ParticleSystem();
+  private host: SimulationHost;
+  private match: { config: MatchConfig; player: PlayerProfile } | null = null;
   private gameState: GameState;
+  private camera: CameraController;
+  // The camera as drawn last frame, shake included, for mapping the pointer to a steering direction.
+  private view: CameraView = { x: 0, y: 0, zoom: 1 };
   private lastFrameTime: number = 0;
   private animationFrameId: number | null = null;
   private isRunning: boolean = false;
-  private startTime: number = 0;
+  private spawnTick: number = 0;
+  private accumulator: number = 0;
+  private previousSegments: Map<string, Vector2[]> = new Map();
+  // Set when the local player is (re)spawned so the next update jumps the camera instead of gliding.
+  private freshSpawn: boolean = false;
 
-  private readonly MAP_WIDTH = 5000;
-  private readonly MAP_HEIGHT = 5000;
-  private readonly INITIAL_FOOD_COUNT = 500;
-  private readonly MAX_AI_SNAKES = 15;
+  private readonly MAX_TICKS_PER_FRAME = 5;
 
   private mousePos: Vector2 = { x: 0, y: 0 };
   private touchPos: Vector2 | null = null;
   private isBoosting: boolean = false;
   private faceTextures: Map<string, HTMLImageElement> = new Map();
+  private requestedTextures: Set<string> = new Set();
+
+  private network: NetworkClient | null = null;
+  private netcode: ClientNetcode | null = null;
+  private awaitingRespawn: boolean = false;
+
+  private lastReplay: Replay | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private playbackSpeed: number = 1;
+  private isPaused: boolean = false;
+  private freeCamera: boolean = false;
+
+  private spectating: boolean = false;
+  private spectateTargetId: string | null = null;
+
+  private editing: boolean = false;
+
+  private readonly MIN_ZOOM = 0.2;
+  private readonly EDITOR_MIN_ZOOM = 0.08;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
-    this.ctx = canvas.getContext('2d')!;
-
-    this.gameState = {
-      snakes: new Map(),
-      foods: [],
-      playerSnake: null,
-      camera: { x: 0, y: 0, zoom: 1 },
-      mapSize: { width: this.MAP_WIDTH, height: this.MAP_HEIGHT }
-    };
+    this.renderer = createRenderer(canvas, 'canvas');
+    this.camera = new CameraController(this.MIN_ZOOM);
+
+    this.host = createSimulationHost(() => this.fallBackToMainThread());
+    this.gameState = this.host.state;
 
     this.resizeCanvas();
     window.addEventListener('resize', () => this.resizeCanvas());
@@ -42,59 +88,308 @@ export class GameEngine {
     this.canvas.height = window.innerHeight;
   }
 
-  public initialize(playerName: string, color: string, skin: string, faceUrl?: string) {
-    this.gameState.foods = [];
-    for (let i = 0; i < this.INITIAL_FOOD_COUNT; i++) {
-      this.gameState.foods.push(generateFood(this.MAP_WIDTH, this.MAP_HEIGHT));
-    }
+  // Falls back to Canvas 2D when WebGL 2 is unavailable; returns the renderer actually in use.
+  public setRenderer(kind: RendererKind): RendererKind {
+    if (kind === this.renderer.kind) return kind;
+
+    this.renderer.dispose();
+    this.renderer = createRenderer(this.canvas, kind);
+    return this.renderer.kind;
+  }
+
+  public getRendererKind(): RendererKind {
+    return this.renderer.kind;
+  }
+
+  public getRenderStats(): RenderStats {
+    return this.renderer.stats;
+  }
 
-    const startX = this.MAP_WIDTH / 2 + (Math.random() - 0.5) * 1000;
-    const startY = this.MAP_HEIGHT / 2 + (Math.random() - 0.5) * 1000;
+  public setParticleQuality(quality: ParticleQuality): ParticleQuality {
+    this.particles.setQuality(quality);
+    return this.particles.qualityId;
+  }
+
+  // A worker that fails to load or crashes hands the match back to the main thread, restarted from the same seed.
+  private fallBackToMainThread() {
+    const showingHost = this.gameState === this.host.state;
 
-    this.gameState.playerSnake = this.createSnake('player', playerName, startX, startY, color, skin, faceUrl);
-    this.gameState.snakes.set('player', this.gameState.playerSnake);
+    this.host.dispose();
+    this.host = new InThreadHost();
+    if (showingHost) {
+      this.gameState = this.host.state;
+    }
+    if (this.match) {
+      this.host.reset(this.match.config, this.match.player);
+      this.previousSegments.clear();
+      this.particles.clear();
+      this.freshSpawn = true;
+    }
+  }
+
+  public initialize(
+    playerName: string,
+    color: string,
+    skin: string,
+    faceUrl?: string,
+    mode: GameModeId = 'ffa',
+    rules: GameRules = DEFAULT_RULES,
+    map?: GameMap,
+    difficulty: AIDifficulty = 'normal',
+    seed: number = createSeed()
+  ) {
+    this.disconnect();
+    this.exitReplay();
+    this.exitEditor();
+    this.stopSpectating();
+    this.lastReplay = null;
+
+    const player = { username: playerName, color, skin, faceUrl };
+    this.match = { config: { seed, mode, rules, map, difficulty }, player };
+    this.host.reset(this.match.config, player);
+    this.gameState = this.host.state;
+    this.previousSegments.clear();
+    this.particles.clear();
+    this.freshSpawn = true;
+    this.camera.resetZoom();
 
     if (faceUrl) {
-      this.loadFaceTexture('player', faceUrl);
+      this.loadFaceTexture(PLAYER_ID, faceUrl);
     }
+  }
 
-    for (let i = 0; i < this.MAX_AI_SNAKES; i++) {
-      const aiSnake = generateAISnake(this.MAP_WIDTH, this.MAP_HEIGHT, i);
-      this.gameState.snakes.set(aiSnake.id, aiSnake);
+  public connect(
+    serverUrl: string,
+    playerName: string,
+    color: string,
+    skin: string,
+    faceUrl: string | undefined,
+    onDisconnect: () => void,
+    conditions: LinkConditions = PERFECT_LINK,
+    interpolationDelay?: number
+  ) {
+    this.disconnect();
+    this.exitReplay();
+    this.stopSpectating();
+    this.match = null;
+    this.lastReplay = null;
+
+    const netcode = new ClientNetcode(interpolationDelay);
+    this.netcode = netcode;
+    this.gameState = netcode.state;
+    this.previousSegments.clear();
+    this.particles.clear();
+    this.camera.snap();
+    this.camera.resetZoom();
+    this.awaitingRespawn = false;
+
+    this.network = new NetworkClient({
+      onWelcome: message => {
+        netcode.handleWelcome(message);
+        this.spawnTick = message.tick;
+      },
+      onSnapshot: message => {
+        netcode.handleSnapshot(message, performance.now());
+        this.syncNetworkPlayer();
+      },
+      onDisconnect
+    }, conditions);
+
+    this.network.connect(serverUrl, { type: 'join', username: playerName, color, skin, faceUrl });
+  }
+
+  public disconnect() {
+    if (this.network) {
+      this.network.close();
+      this.network = null;
     }
+    this.netcode = null;
+  }
 
-    this.startTime = Date.now();
+  public setLinkConditions(conditions: LinkConditions) {
+    this.network?.setLinkConditions(conditions);
   }
 
-  private createSnake(id: string, username: string, x: number, y: number, color: string, skin: string, faceUrl?: string): Snake {
-    const segments: { x: number; y: number; radius: number }[] = [];
-    const initialSegments = 10;
-    const segmentRadius = 8;
+  public getNetworkStats(): NetcodeStats | null {
+    return this.netcode ? this.netcode.getStats() : null;
+  }
+
+  private syncNetworkPlayer() {
+    if (!this.netcode) return;
+
+    const state = this.gameState;
+    const snake = this.netcode.getLocalSnake();
 
-    for (let i = 0; i < initialSegments; i++) {
-      segments.push({ x: x - i * segmentRadius, y, radius: segmentRadius });
+    if (this.awaitingRespawn) {
+      if (!snake || snake.isDead) return;
+      this.awaitingRespawn = false;
+      this.spawnTick = state.tick;
+      this.camera.snap();
     }
 
+    state.playerSnake = snake;
+
+    state.snakes.forEach(other => {
+      if (other.faceUrl && !this.requestedTextures.has(other.id)) {
+        this.loadFaceTexture(other.id, other.faceUrl);
+      }
+    });
+  }
+
+  public startReplay(replay: Replay) {
+    this.disconnect();
+
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.gameState = this.replayPlayer.simulation.getState();
+    this.previousSegments.clear();
+    this.particles.clear();
+    this.isPaused = false;
+    this.playbackSpeed = 1;
+    this.freeCamera = false;
+
+    if (replay.config.faceUrl) {
+      this.loadFaceTexture(replay.playerId, replay.config.faceUrl);
+    }
+
+    this.followPlayer();
+    this.camera.snap();
+
+    if (!this.isRunning) {
+      this.start();
+    }
+  }
+
+  public exitReplay() {
+    if (!this.replayPlayer) return;
+
+    this.replayPlayer = null;
+    this.freeCamera = false;
+    this.gameState = this.host.state;
+    this.previousSegments.clear();
+    this.particles.clear();
+    this.followPlayer();
+  }
+
+  public startEditor(map: GameMap) {
+    this.disconnect();
+    this.exitReplay();
+    this.stopSpectating();
+
+    this.editing = true;
+    this.gameState = createGameState(DEFAULT_RULES, 0, map);
+    this.previousSegments.clear();
+    this.particles.clear();
+    this.freeCamera = true;
+
+    const fit = Math.min(this.canvas.width / map.width, this.canvas.height / map.height) * 0.9;
+    this.camera.follow(null);
+    this.camera.setMinZoom(this.EDITOR_MIN_ZOOM);
+    this.camera.moveTo(map.width / 2, map.height / 2, fit);
+
+    if (!this.isRunning) {
+      this.start();
+    }
+  }
+
+  public setEditorMap(map: GameMap) {
+    if (!this.editing) return;
+
+    this.gameState.map = map;
+    this.gameState.mapSize = { width: map.width, height: map.height };
+  }
+
+  public exitEditor() {
+    if (!this.editing) return;
+
+    this.editing = false;
+    this.freeCamera = false;
+    this.camera.setMinZoom(this.MIN_ZOOM);
+    this.gameState = this.host.state;
+    this.previousSegments.clear();
+  }
+
+  // Both directions go through the view that was last drawn, shake and easing included, so they stay inverses.
+  public screenToWorld(x: number, y: number): Vector2 {
+    const view = this.view;
+    return {
+      x: view.x + (x - this.canvas.width / 2) / view.zoom,
+      y: view.y + (y - this.canvas.height / 2) / view.zoom
+    };
+  }
+
+  private worldToScreen(point: Vector2): Vector2 {
+    const { x, y, zoom } = this.view;
+    const delta = arenaDelta(this.gameState.map, x, y, point.x, point.y);
+    return { x: this.canvas.width / 2 + delta.x * zoom, y: this.canvas.height / 2 + delta.y * zoom };
+  }
+
+  public getLastReplay(): Replay | null {
+    return this.lastReplay;
+  }
+
+  public getReplayProgress(): ReplayProgress | null {
+    if (!this.replayPlayer) return null;
+
     return {
-      id,
-      username,
-      segments,
-      color,
-      skin,
-      direction: 0,
-      targetDirection: 0,
-      speed: 3,
-      mass: initialSegments * 10,
-      isBoosting: false,
-      isDead: false,
-      score: 0,
-      kills: 0,
-      isAI: id !== 'player',
-      faceUrl: faceUrl
+      tick: this.replayPlayer.tick,
+      startTick: this.replayPlayer.replay.startTick,
+      endTick: this.replayPlayer.replay.endTick,
+      isPaused: this.isPaused,
+      speed: this.playbackSpeed,
+      freeCamera: this.freeCamera
     };
   }
 
+  public setPaused(paused: boolean) {
+    this.isPaused = paused;
+  }
+
+  public setPlaybackSpeed(speed: number) {
+    this.playbackSpeed = Math.max(0.25, Math.min(8, speed));
+  }
+
+  public seekReplay(tick: number) {
+    if (!this.replayPlayer) return;
+
+    this.replayPlayer.seek(tick);
+    // The ticks skipped over leave no effects behind.
+    this.replayPlayer.simulation.takeEvents();
+    this.previousSegments.clear();
+    this.particles.clear();
+    if (!this.freeCamera) {
+      this.followPlayer();
+      this.camera.snap();
+    }
+  }
+
+  public setFreeCamera(enabled: boolean) {
+    this.freeCamera = enabled;
+    if (enabled) {
+      this.camera.follow(null);
+      return;
+    }
+
+    if (this.spectating) {
+      this.followSpectateTarget();
+    } else {
+      this.followPlayer();
+    }
+  }
+
+  public panCamera(screenDx: number, screenDy: number) {
+    if (!this.freeCamera) return;
+
+    this.camera.pan(screenDx, screenDy, this.gameState.map);
+  }
+
+  // Zooms a free camera directly; a following camera keeps adjusting to the snake's size within the
+  // player's chosen range.
+  public zoomCamera(factor: number) {
+    this.camera.zoomBy(factor);
+  }
+
   private loadFaceTexture(snakeId: string, faceUrl: string) {
+    this.requestedTextures.add(snakeId);
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = () => {
@@ -108,11 +403,13 @@ export class GameEngine {
 
   public start() {
     this.isRunning = true;
+    this.accumulator = 0;
     this.lastFrameTime = performance.now();
     this.gameLoop();
   }
 
   public stop() {
+    this.disconnect();
     this.isRunning = false;
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId);
@@ -123,226 +420,330 @@ export class GameEngine {
     if (!this.isRunning) return;
 
     const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastFrameTime) / 16.67;
+    const frameTime = Math.min(currentTime - this.lastFrameTime, TICK_MS * this.MAX_TICKS_PER_FRAME);
     this.lastFrameTime = currentTime;
 
-    this.update(deltaTime);
-    this.render();
+    if (this.replayPlayer) {
+      this.accumulator += this.isPaused ? 0 : frameTime * this.playbackSpeed;
+    } else {
+      this.accumulator += frameTime;
+    }
 
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
-  };
+    let localTicks = 0;
+    while (this.accumulator >= TICK_MS) {
+      if (this.replayPlayer) {
+        this.capturePreviousState();
+        this.updateReplay(this.replayPlayer);
+      } else if (this.network && this.netcode) {
+        this.capturePreviousState();
+        this.updateNetwork(this.network, this.netcode);
+      } else {
+        localTicks++;
+      }
+      this.accumulator -= TICK_MS;
+    }
 
-  private update(deltaTime: number) {
-    if (!this.gameState.playerSnake || this.gameState.playerSnake.isDead) return;
+    if (localTicks > 0) {
+      this.advanceLocal(localTicks);
+    }
+    if (this.host.hasUpdate && this.gameState === this.host.state) {
+      this.capturePreviousState();
+      this.host.flush();
+      this.afterLocalUpdate();
+    }
+    if (this.netcode) {
+      this.dispatchEvents(this.netcode.takeEvents(currentTime));
+    }
 
-    this.gameState.playerSnake.isBoosting = this.isBoosting;
+    const effectTime = this.replayPlayer ? (this.isPaused ? 0 : frameTime * this.playbackSpeed) : frameTime;
+    this.particles.update(effectTime / 1000, this.gameState);
+    this.render(this.accumulator / TICK_MS, frameTime / 1000);
 
-    if (this.touchPos) {
-      const dx = this.touchPos.x - this.canvas.width / 2;
-      const dy = this.touchPos.y - this.canvas.height / 2;
-      this.gameState.playerSnake.targetDirection = Math.atan2(dy, dx);
-    } else {
-      const dx = this.mousePos.x - this.canvas.width / 2;
-      const dy = this.mousePos.y - this.canvas.height / 2;
-      this.gameState.playerSnake.targetDirection = Math.atan2(dy, dx);
-    }
+    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  };
 
+  private capturePreviousState() {
+    this.previousSegments.clear();
     this.gameState.snakes.forEach(snake => {
-      if (snake.isDead) return;
+      if (this.netcode && snake !== this.gameState.playerSnake) return;
+      this.previousSegments.set(snake.id, snake.segments.map(segment => ({ x: segment.x, y: segment.y })));
+    });
+  }
 
-      if (snake.isAI) {
-        updateAI(snake, this.gameState.foods, Array.from(this.gameState.snakes.values()));
-      }
+  // Steers toward the pointer from where the head is drawn, which the look-ahead keeps off screen centre.
+  private readInput(): SnakeInput {
+    const pointer = this.touchPos ?? this.mousePos;
+    const head = this.gameState.playerSnake?.segments[0];
+    const origin = head ? this.worldToScreen(head) : { x: this.canvas.width / 2, y: this.canvas.height / 2 };
+    return { targetDirection: Math.atan2(pointer.y - origin.y, pointer.x - origin.x), boost: this.isBoosting };
+  }
+
+  private advanceLocal(ticks: number) {
+    if (this.editing || this.gameState !== this.host.state || !this.gameState.playerSnake) return;
+    this.host.advance(ticks, this.readInput());
+  }
 
-      updateSnakePhysics(snake, deltaTime);
+  private dispatchEvents(events: GameEvent[]) {
+    events.forEach(event => {
+      this.particles.handleEvent(event, this.gameState);
+      if (event.type === 'snakeDied') this.shakeForDeath(event.victim.id, event.killer?.id);
+      if (!this.replayPlayer) this.announce(event);
     });
+  }
 
-    checkCollisions(this.gameState);
+  private get playerId(): string | null {
+    return this.netcode ? this.netcode.localId : this.gameState.playerSnake?.id ?? null;
+  }
 
-    if (this.gameState.foods.length < this.INITIAL_FOOD_COUNT) {
-      const toAdd = this.INITIAL_FOOD_COUNT - this.gameState.foods.length;
-      for (let i = 0; i < toAdd; i++) {
-        this.gameState.foods.push(generateFood(this.MAP_WIDTH, this.MAP_HEIGHT));
+  // Republishes a simulation event on the bus with what listeners need to know about the snakes involved.
+  private announce(event: GameEvent) {
+    const state = this.gameState;
+    const tick = state.tick;
+    const playerId = this.playerId;
+
+    switch (event.type) {
+      case 'foodEaten': {
+        const snake = state.snakes.get(event.snakeId);
+        if (!snake) return;
+        this.events.emit('foodEaten', { snake: tagSnake(snake), isPlayer: snake.id === playerId, kind: event.kind, value: event.value, tick });
+        break;
+      }
+      case 'snakeDied': {
+        const killer = event.killer ?? null;
+        const isPlayerVictim = event.victim.id === playerId;
+        this.events.emit('snakeKilled', {
+          victim: event.victim,
+          killer,
+          cause: event.cause,
+          isPlayerVictim,
+          isPlayerKiller: killer !== null && killer.id === playerId,
+          victimMass: event.mass,
+          victimScore: event.score,
+          x: event.x,
+          y: event.y,
+          tick
+        });
+        if (isPlayerVictim) {
+          const stats = this.getPlayerStats(event.mass, event.score);
+          this.events.emit('playerDied', { killer, cause: event.cause, stats, tick });
+        }
+        break;
       }
+      case 'boostStarted': {
+        const snake = state.snakes.get(event.snakeId);
+        if (!snake) return;
+        this.events.emit('boostStarted', { snake: tagSnake(snake), isPlayer: snake.id === playerId, tick });
+        break;
+      }
+      case 'snakeSpawned':
+        this.events.emit('snakeSpawned', { snake: event.snake, isPlayer: event.snake.id === playerId, tick });
+        break;
     }
+  }
 
-    this.gameState.snakes.forEach((snake, id) => {
-      if (snake.isDead && snake.isAI) {
-        this.gameState.snakes.delete(id);
-        const newAI = generateAISnake(this.MAP_WIDTH, this.MAP_HEIGHT, Math.floor(Math.random() * 1000));
-        this.gameState.snakes.set(newAI.id, newAI);
-      }
+  // Rank counts the snakes still alive that outscore the player.
+  private getPlayerStats(mass: number, score: number): PlayerStats {
+    let ahead = 0;
+    this.gameState.snakes.forEach(snake => {
+      if (!snake.isDead && snake.score > score) ahead++;
     });
 
-    if (this.gameState.playerSnake) {
-      const head = this.gameState.playerSnake.segments[0];
-      this.gameState.camera.x = head.x;
-      this.gameState.camera.y = head.y;
+    return {
+      score,
+      mass: Math.floor(mass),
+      kills: this.gameState.playerSnake?.kills ?? 0,
+      timeAlive: this.getTimeAlive(),
+      rank: ahead + 1
+    };
+  }
+
+  // Shakes the screen when the followed snake dies or makes a kill.
+  private shakeForDeath(victimId: string, killerId?: string) {
+    const followedId = this.camera.following?.id;
+    if (!followedId) return;
 
-      const baseMass = 100;
-      const zoomFactor = Math.max(0.5, Math.min(1.5, baseMass / this.gameState.playerSnake.mass));
-      this.gameState.camera.zoom = zoomFactor;
+    if (victimId === followedId) {
+      this.camera.shake(0.7);
+    } else if (killerId === followedId) {
+      this.camera.shake(0.35);
     }
   }
 
-  private render() {
-    this.ctx.fillStyle = '#0a0a0f';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-
-    this.ctx.save();
+  private afterLocalUpdate() {
+    const replay = this.host.takeReplay();
+    if (replay) {
+      this.lastReplay = replay;
+    }
+    this.spawnTick = this.host.spawnTick;
+    this.dispatchEvents(this.host.takeEvents());
 
-    this.ctx.translate(this.canvas.width / 2, this.canvas.height / 2);
-    this.ctx.scale(this.gameState.camera.zoom, this.gameState.camera.zoom);
-    this.ctx.translate(-this.gameState.camera.x, -this.gameState.camera.y);
+    const playerSnake = this.gameState.playerSnake;
+    if (!playerSnake || this.gameState.mode.isOver) return;
 
-    this.drawGrid();
-    this.drawMapBorder();
-    this.drawFood();
-    this.drawSnakes();
+    if (playerSnake.isDead) {
+      if (this.spectating && !this.freeCamera) {
+        this.followSpectateTarget();
+      }
+      return;
+    }
 
-    this.ctx.restore();
+    this.followPlayer();
+    if (this.freshSpawn) {
+      this.freshSpawn = false;
+      this.camera.snap();
+      this.previousSegments.delete(playerSnake.id);
+    }
   }
 
-  private drawGrid() {
-    const gridSize = 50;
-    const startX = Math.floor((this.gameState.camera.x - this.canvas.width / this.gameState.camera.zoom) / gridSize) * gridSize;
-    const endX = Math.ceil((this.gameState.camera.x + this.canvas.width / this.gameState.camera.zoom) / gridSize) * gridSize;
-    const startY = Math.floor((this.gameState.camera.y - this.canvas.height / this.gameState.camera.zoom) / gridSize) * gridSize;
-    const endY = Math.ceil((this.gameState.camera.y + this.canvas.height / this.gameState.camera.zoom) / gridSize) * gridSize;
+  private updateNetwork(network: NetworkClient, netcode: ClientNetcode) {
+    const playerSnake = this.gameState.playerSnake;
+    if (!playerSnake || this.gameState.mode.isOver) return;
 
-    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
-    this.ctx.lineWidth = 1;
+    if (playerSnake.isDead) {
+      if (this.spectating && !this.freeCamera) {
+        this.followSpectateTarget();
+      }
+      return;
+    }
 
-    for (let x = startX; x <= endX; x += gridSize) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(x, startY);
-      this.ctx.lineTo(x, endY);
-      this.ctx.stroke();
+    const input = this.readInput();
+    const seq = netcode.predict(input);
+    network.send({ type: 'input', seq, ...input });
+    this.followPlayer();
+  }
+
+  private updateReplay(player: ReplayPlayer) {
+    if (player.isFinished) {
+      this.isPaused = true;
+      return;
     }
 
-    for (let y = startY; y <= endY; y += gridSize) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(startX, y);
-      this.ctx.lineTo(endX, y);
-      this.ctx.stroke();
+    player.step();
+    this.dispatchEvents(player.simulation.takeEvents());
+    if (!this.freeCamera) {
+      this.followPlayer();
     }
   }
 
-  private drawMapBorder() {
-    this.ctx.strokeStyle = '#ff0000';
-    this.ctx.lineWidth = 10;
-    this.ctx.strokeRect(0, 0, this.MAP_WIDTH, this.MAP_HEIGHT);
+  private followPlayer() {
+    if (this.gameState.playerSnake) {
+      this.followSnake(this.gameState.playerSnake);
+    }
   }
 
-  private drawFood() {
-    this.gameState.foods.forEach(food => {
-      this.ctx.beginPath();
-      this.ctx.arc(food.x, food.y, food.radius, 0, Math.PI * 2);
-      this.ctx.fillStyle = food.color;
-      this.ctx.fill();
-
-      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-      this.ctx.lineWidth = 1;
-      this.ctx.stroke();
-    });
+  private followSnake(snake: Snake) {
+    this.camera.follow(snake);
   }
 
-  private drawSnakes() {
-    const snakesArray = Array.from(this.gameState.snakes.values()).sort((a, b) => a.mass - b.mass);
+  public startSpectating() {
+    this.spectating = true;
+    this.freeCamera = false;
 
-    snakesArray.forEach(snake => {
-      if (snake.isDead) return;
+    const killerId = this.gameState.playerSnake?.killedBy;
+    const killer = killerId ? this.gameState.snakes.get(killerId) : undefined;
+    this.spectateTargetId = killer && !killer.isDead ? killer.id : null;
+    this.followSpectateTarget();
+  }
 
-      for (let i = snake.segments.length - 1; i >= 0; i--) {
-        const segment = snake.segments[i];
+  public stopSpectating() {
+    this.spectating = false;
+    this.spectateTargetId = null;
+    this.freeCamera = false;
+  }
 
-        this.ctx.beginPath();
-        this.ctx.arc(segment.x, segment.y, segment.radius, 0, Math.PI * 2);
+  public spectateKiller(): boolean {
+    const killerId = this.gameState.playerSnake?.killedBy;
+    const killer = killerId ? this.gameState.snakes.get(killerId) : undefined;
+    if (!killer || killer.isDead) return false;
 
-        if (i === 0) {
-          this.ctx.fillStyle = snake.color;
-        } else {
-          this.ctx.fillStyle = this.adjustBrightness(snake.color, 0.8);
-        }
-        this.ctx.fill();
+    this.spectateTargetId = killer.id;
+    this.setFreeCamera(false);
+    return true;
+  }
 
-        this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
-        this.ctx.lineWidth = 2;
-        this.ctx.stroke();
+  public cycleSpectateTarget(direction: 1 | -1) {
+    const leaders = this.getSpectateCandidates();
+    if (leaders.length === 0) return;
 
-        if (snake.skin !== 'default' && i % 2 === 0) {
-          this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-          this.ctx.lineWidth = 1;
-          this.ctx.stroke();
-        }
-      }
+    const index = leaders.findIndex(snake => snake.id === this.spectateTargetId);
+    const next = index === -1 ? 0 : (index + direction + leaders.length) % leaders.length;
+    this.spectateTargetId = leaders[next].id;
+    this.setFreeCamera(false);
+  }
 
-      const head = snake.segments[0];
-      const faceTexture = this.faceTextures.get(snake.id);
+  public getSpectatedSnake(): Snake | null {
+    if (!this.spectating || this.freeCamera || !this.spectateTargetId) return null;
+    return this.gameState.snakes.get(this.spectateTargetId) ?? null;
+  }
 
-      if (faceTexture && snake.faceUrl) {
-        this.ctx.save();
-        this.ctx.translate(head.x, head.y);
-        this.ctx.rotate(snake.direction);
+  public isFreeCamera(): boolean {
+    return this.freeCamera;
+  }
 
-        this.ctx.beginPath();
-        this.ctx.arc(0, 0, head.radius, 0, Math.PI * 2);
-        this.ctx.clip();
+  private getSpectateCandidates(): Snake[] {
+    return Array.from(this.gameState.snakes.values())
+      .filter(snake => !snake.isDead && snake !== this.gameState.playerSnake)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10);
+  }
 
-        const size = head.radius * 2;
-        this.ctx.drawImage(faceTexture, -head.radius, -head.radius, size, size);
+  private followSpectateTarget() {
+    let target = this.spectateTargetId ? this.gameState.snakes.get(this.spectateTargetId) : undefined;
 
-        this.ctx.restore();
+    if (!target || target.isDead) {
+      const killer = target?.killedBy ? this.gameState.snakes.get(target.killedBy) : undefined;
+      target = killer && !killer.isDead ? killer : this.getSpectateCandidates()[0];
+      this.spectateTargetId = target ? target.id : null;
+    }
 
-        this.ctx.save();
-        this.ctx.beginPath();
-        this.ctx.arc(head.x, head.y, head.radius, 0, Math.PI * 2);
-        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-        this.ctx.lineWidth = 2;
-        this.ctx.stroke();
-        this.ctx.restore();
-      } else {
-        this.ctx.save();
-        this.ctx.translate(head.x, head.y);
-        this.ctx.rotate(snake.direction);
-
-        this.ctx.fillStyle = 'white';
-        this.ctx.beginPath();
-        this.ctx.arc(head.radius * 0.3, -head.radius * 0.3, head.radius * 0.25, 0, Math.PI * 2);
-        this.ctx.fill();
-        this.ctx.beginPath();
-        this.ctx.arc(head.radius * 0.3, head.radius * 0.3, head.radius * 0.25, 0, Math.PI * 2);
-        this.ctx.fill();
-
-        this.ctx.fillStyle = 'black';
-        this.ctx.beginPath();
-        this.ctx.arc(head.radius * 0.35, -head.radius * 0.3, head.radius * 0.15, 0, Math.PI * 2);
-        this.ctx.fill();
-        this.ctx.beginPath();
-        this.ctx.arc(head.radius * 0.35, head.radius * 0.3, head.radius * 0.15, 0, Math.PI * 2);
-        this.ctx.fill();
-
-        this.ctx.restore();
-      }
+    if (target) {
+      this.followSnake(target);
+    }
+  }
 
-      this.ctx.save();
-      this.ctx.font = 'bold 14px Arial';
-      this.ctx.fillStyle = 'white';
-      this.ctx.strokeStyle = 'black';
-      this.ctx.lineWidth = 3;
-      this.ctx.textAlign = 'center';
-      this.ctx.strokeText(snake.username, head.x, head.y - head.radius - 10);
-      this.ctx.fillText(snake.username, head.x, head.y - head.radius - 10);
-      this.ctx.restore();
+  private render(alpha: number, seconds: number) {
+    if (this.netcode) {
+      this.netcode.interpolate(performance.now());
+    }
+
+    const followed = this.camera.following;
+    const focus = followed && followed.segments.length > 0 ? this.interpolateHead(followed, alpha) : null;
+    this.camera.update(seconds, focus, this.canvas, this.gameState.map);
+    this.view = this.camera.getView();
+
+    this.renderer.render({
+      state: this.gameState,
+      camera: this.view,
+      editing: this.editing,
+      faceTextures: this.faceTextures,
+      particles: this.particles,
+      segmentsOf: snake => this.interpolateSegments(snake, alpha)
     });
   }
 
-  private adjustBrightness(color: string, factor: number): string {
-    const hex = color.replace('#', '');
-    const r = Math.floor(parseInt(hex.substr(0, 2), 16) * factor);
-    const g = Math.floor(parseInt(hex.substr(2, 2), 16) * factor);
-    const b = Math.floor(parseInt(hex.substr(4, 2), 16) * factor);
-    return `rgb(${r}, ${g}, ${b})`;
+  private interpolateHead(snake: Snake, alpha: number): Vector2 {
+    const head = snake.segments[0];
+    const previous = this.previousSegments.get(snake.id)?.[0];
+    if (!previous) return head;
+
+    const delta = arenaDelta(this.gameState.map, previous.x, previous.y, head.x, head.y);
+    return { x: previous.x + delta.x * alpha, y: previous.y + delta.y * alpha };
+  }
+
+  private interpolateSegments(snake: Snake, alpha: number): SnakeSegment[] {
+    const previous = this.previousSegments.get(snake.id);
+    if (!previous) return snake.segments;
+
+    return snake.segments.map((segment, index) => {
+      const prev = previous[index];
+      if (!prev) return segment;
+      const delta = arenaDelta(this.gameState.map, prev.x, prev.y, segment.x, segment.y);
+      return {
+        x: prev.x + delta.x * alpha,
+        y: prev.y + delta.y * alpha,
+        radius: segment.radius
+      };
+    });
   }
 
   public setMousePosition(x: number, y: number) {
@@ -366,20 +767,28 @@ export class GameEngine {
   }
 
   public getTimeAlive(): number {
-    return Math.floor((Date.now() - this.startTime) / 1000);
+    return Math.floor((this.gameState.tick - this.spawnTick) / TICK_RATE);
   }
 
   public respawn(playerName: string, color: string, skin: string, faceUrl?: string) {
-    const startX = this.MAP_WIDTH / 2 + (Math.random() - 0.5) * 1000;
-    const startY = this.MAP_HEIGHT / 2 + (Math.random() - 0.5) * 1000;
+    this.stopSpectating();
 
-    this.gameState.playerSnake = this.createSnake('player', playerName, startX, startY, color, skin, faceUrl);
-    this.gameState.snakes.set('player', this.gameState.playerSnake);
+    if (this.network) {
+      this.awaitingRespawn = true;
+      this.gameState.playerSnake = null;
+      this.network.send({ type: 'respawn' });
+      return;
+    }
 
-    if (faceUrl) {
-      this.loadFaceTexture('player', faceUrl);
+    const player = { username: playerName, color, skin, faceUrl };
+    if (this.match) {
+      this.match.player = player;
     }
+    this.host.respawn(player);
+    this.freshSpawn = true;
 
-    this.startTime = Date.now();
+    if (faceUrl) {
+      this.loadFaceTexture(PLAYER_ID, faceUrl);
+    }
   }
 }
@@ -0,0 +1,340 @@
+import { ArenaShape, FoodZone, GameMap, MapRock, MapWall, SlowZone, Vector2 } from '../types/game';
+import { SeededRandom } from './Random';
+
+const PLACEMENT_ATTEMPTS = 20;
+export const MIN_SPAWN_DISTANCE = 150;
+const SPAWN_CLEARANCE = 60;
+
+export const ARENA_SHAPES: { id: ArenaShape; name: string }[] = [
+  { id: 'rectangle', name: 'Rectangle' },
+  { id: 'circle', name: 'Circle' },
+  { id: 'torus', name: 'Wrap-around' }
+];
+
+export function createOpenMap(width: number, height: number, shape: ArenaShape = 'rectangle'): GameMap {
+  return {
+    id: 'open',
+    name: 'Open Arena',
+    width,
+    height,
+    shape,
+    walls: [],
+    rocks: [],
+    slowZones: [],
+    foodZones: [],
+    spawns: []
+  };
+}
+
+export const BUILTIN_MAPS: GameMap[] = [
+  {
+    id: 'fortress',
+    name: 'Fortress',
+    width: 5000,
+    height: 5000,
+    shape: 'rectangle',
+    walls: [
+      { x: 1800, y: 1800, width: 600, height: 60 },
+      { x: 2600, y: 1800, width: 600, height: 60 },
+      { x: 1800, y: 3140, width: 600, height: 60 },
+      { x: 2600, y: 3140, width: 600, height: 60 },
+      { x: 1800, y: 1800, width: 60, height: 600 },
+      { x: 1800, y: 2600, width: 60, height: 600 },
+      { x: 3140, y: 1800, width: 60, height: 600 },
+      { x: 3140, y: 2600, width: 60, height: 600 }
+    ],
+    rocks: [],
+    slowZones: [],
+    foodZones: [{ x: 2500, y: 2500, radius: 500, density: 4 }],
+    spawns: [
+      { x: 800, y: 800 },
+      { x: 4200, y: 800 },
+      { x: 800, y: 4200 },
+      { x: 4200, y: 4200 }
+    ]
+  },
+  {
+    id: 'asteroids',
+    name: 'Asteroid Field',
+    width: 6000,
+    height: 6000,
+    shape: 'rectangle',
+    walls: [],
+    rocks: [
+      { x: 1200, y: 1500, radius: 180 },
+      { x: 2100, y: 900, radius: 120 },
+      { x: 3300, y: 1700, radius: 220 },
+      { x: 4700, y: 1100, radius: 150 },
+      { x: 900, y: 3300, radius: 140 },
+      { x: 2400, y: 3000, radius: 260 },
+      { x: 3900, y: 3400, radius: 130 },
+      { x: 5100, y: 2900, radius: 200 },
+      { x: 1600, y: 4800, radius: 170 },
+      { x: 3200, y: 4600, radius: 150 },
+      { x: 4600, y: 5000, radius: 240 }
+    ],
+    slowZones: [],
+    foodZones: [
+      { x: 1700, y: 2300, radius: 400, density: 3 },
+      { x: 4300, y: 4200, radius: 400, density: 3 }
+    ],
+    spawns: []
+  },
+  {
+    id: 'swamp',
+    name: 'Swamp',
+    width: 5000,
+    height: 5000,
+    shape: 'rectangle',
+    walls: [],
+    rocks: [
+      { x: 2500, y: 2500, radius: 120 }
+    ],
+    slowZones: [
+      { x: 1300, y: 1300, radius: 600, factor: 0.5 },
+      { x: 3700, y: 3700, radius: 600, factor: 0.5 },
+      { x: 3700, y: 1300, radius: 450, factor: 0.6 },
+      { x: 1300, y: 3700, radius: 450, factor: 0.6 }
+    ],
+    foodZones: [
+      { x: 1300, y: 1300, radius: 500, density: 5 },
+      { x: 3700, y: 3700, radius: 500, density: 5 }
+    ],
+    spawns: []
+  }
+];
+
+export function getBuiltinMap(id: string): GameMap | undefined {
+  return BUILTIN_MAPS.find(map => map.id === id);
+}
+
+function circleHitsWall(x: number, y: number, radius: number, wall: MapWall): boolean {
+  const nearestX = Math.max(wall.x, Math.min(x, wall.x + wall.width));
+  const nearestY = Math.max(wall.y, Math.min(y, wall.y + wall.height));
+  const dx = x - nearestX;
+  const dy = y - nearestY;
+  return dx * dx + dy * dy < radius * radius;
+}
+
+function circleHitsRock(x: number, y: number, radius: number, rock: MapRock): boolean {
+  const dx = x - rock.x;
+  const dy = y - rock.y;
+  const reach = radius + rock.radius;
+  return dx * dx + dy * dy < reach * reach;
+}
+
+export function hitsObstacle(map: GameMap, x: number, y: number, radius: number): boolean {
+  return map.walls.some(wall => circleHitsWall(x, y, radius, wall)) ||
+    map.rocks.some(rock => circleHitsRock(x, y, radius, rock));
+}
+
+function insideZone(zone: SlowZone | FoodZone, x: number, y: number): boolean {
+  const dx = x - zone.x;
+  const dy = y - zone.y;
+  return dx * dx + dy * dy < zone.radius * zone.radius;
+}
+
+export function arenaRadius(map: GameMap): number {
+  return Math.min(map.width, map.height) / 2;
+}
+
+export function isInsideArena(map: GameMap, x: number, y: number, margin: number = 0): boolean {
+  switch (map.shape) {
+    case 'circle':
+      return Math.hypot(x - map.width / 2, y - map.height / 2) <= arenaRadius(map) - margin;
+    case 'torus':
+      return true;
+    default:
+      return x >= margin && y >= margin && x <= map.width - margin && y <= map.height - margin;
+  }
+}
+
+export function wrapIntoArena(map: GameMap, point: Vector2) {
+  if (map.shape !== 'torus') return;
+
+  point.x = ((point.x % map.width) + map.width) % map.width;
+  point.y = ((point.y % map.height) + map.height) % map.height;
+}
+
+function randomArenaPoint(random: SeededRandom, map: GameMap, margin: number): Vector2 {
+  if (map.shape === 'circle') {
+    const angle = random.next() * Math.PI * 2;
+    const distance = Math.sqrt(random.next()) * Math.max(0, arenaRadius(map) - margin);
+    return { x: map.width / 2 + Math.cos(angle) * distance, y: map.height / 2 + Math.sin(angle) * distance };
+  }
+  if (map.shape === 'torus') {
+    return { x: random.next() * map.width, y: random.next() * map.height };
+  }
+  return { x: margin + random.next() * (map.width - margin * 2), y: margin + random.next() * (map.height - margin * 2) };
+}
+
+export function terrainSpeedAt(map: GameMap, x: number, y: number): number {
+  let factor = 1;
+  map.slowZones.forEach(zone => {
+    if (insideZone(zone, x, y)) {
+      factor = Math.min(factor, zone.factor);
+    }
+  });
+  return factor;
+}
+
+export function randomOpenPosition(random: SeededRandom, map: GameMap, clearance: number): Vector2 {
+  let position = randomArenaPoint(random, map, clearance);
+  for (let i = 0; i < PLACEMENT_ATTEMPTS && hitsObstacle(map, position.x, position.y, clearance); i++) {
+    position = randomArenaPoint(random, map, clearance);
+  }
+  return position;
+}
+
+// Each food zone adds (density - 1) extra copies of its own area to the draw, so a density of 3
+// makes food three times as common inside the zone as on open ground.
+export function randomFoodPosition(random: SeededRandom, map: GameMap): Vector2 {
+  if (map.foodZones.length === 0) {
+    return randomOpenPosition(random, map, 10);
+  }
+
+  const weights = map.foodZones.map(zone => Math.PI * zone.radius * zone.radius * Math.max(0, zone.density - 1));
+  const total = map.width * map.height + weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = random.next() * total - map.width * map.height;
+
+  for (let i = 0; i < map.foodZones.length && roll >= 0; i++) {
+    if (roll < weights[i]) {
+      const zone = map.foodZones[i];
+      for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+        const angle = random.next() * Math.PI * 2;
+        const distance = Math.sqrt(random.next()) * zone.radius;
+        const position = { x: zone.x + Math.cos(angle) * distance, y: zone.y + Math.sin(angle) * distance };
+        wrapIntoArena(map, position);
+        if (isInsideArena(map, position.x, position.y, 10) && !hitsObstacle(map, position.x, position.y, 10)) {
+          return position;
+        }
+      }
+      break;
+    }
+    roll -= weights[i];
+  }
+
+  return randomOpenPosition(random, map, 10);
+}
+
+export function randomSpawnPoint(random: SeededRandom, map: GameMap, clearance: number): Vector2 {
+  if (map.spawns.length > 0) {
+    return random.pick(map.spawns);
+  }
+
+  let position = { x: map.width / 2, y: map.height / 2 };
+  for (let i = 0; i < PLACEMENT_ATTEMPTS; i++) {
+    position = {
+      x: map.width / 2 + (random.next() - 0.5) * 1000,
+      y: map.height / 2 + (random.next() - 0.5) * 1000
+    };
+    if (isInsideArena(map, position.x, position.y, clearance) && !hitsObstacle(map, position.x, position.y, clearance)) break;
+  }
+  return position;
+}
+
+function readNumbers<T>(items: unknown, label: string, keys: (keyof T)[]): T[] {
+  if (items === undefined) return [];
+  if (!Array.isArray(items)) {
+    throw new Error(`Map ${label} must be an array`);
+  }
+
+  return items.map((item, index) => {
+    const values: Partial<Record<keyof T, number>> = {};
+    keys.forEach(key => {
+      const value = (item as Record<string, unknown>)?.[key as string];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Map ${label}[${index}].${String(key)} must be a number`);
+      }
+      values[key] = value;
+    });
+    return values as T;
+  });
+}
+
+export function validateMap(input: unknown): GameMap {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Map must be a JSON object');
+  }
+
+  const data = input as Record<string, unknown>;
+  const { width, height } = data;
+  if (typeof width !== 'number' || typeof height !== 'number' ||
+      width < 1000 || height < 1000 || width > 20000 || height > 20000) {
+    throw new Error('Map width and height must be between 1000 and 20000');
+  }
+
+  const shape = data.shape ?? 'rectangle';
+  if (!ARENA_SHAPES.some(option => option.id === shape)) {
+    throw new Error(`Map shape must be one of: ${ARENA_SHAPES.map(option => option.id).join(', ')}`);
+  }
+
+  const map: GameMap = {
+    id: typeof data.id === 'string' && data.id ? data.id : 'custom',
+    name: typeof data.name === 'string' && data.name ? data.name : 'Custom Map',
+    width,
+    height,
+    shape: shape as ArenaShape,
+    walls: readNumbers<MapWall>(data.walls, 'walls', ['x', 'y', 'width', 'height']),
+    rocks: readNumbers<MapRock>(data.rocks, 'rocks', ['x', 'y', 'radius']),
+    slowZones: readNumbers<SlowZone>(data.slowZones, 'slowZones', ['x', 'y', 'radius', 'factor']),
+    foodZones: readNumbers<FoodZone>(data.foodZones, 'foodZones', ['x', 'y', 'radius', 'density']),
+    spawns: readNumbers<Vector2>(data.spawns, 'spawns', ['x', 'y'])
+  };
+
+  if (map.walls.some(wall => wall.width <= 0 || wall.height <= 0)) {
+    throw new Error('Map walls must have a positive width and height');
+  }
+  if ([...map.rocks, ...map.slowZones, ...map.foodZones].some(shape => shape.radius <= 0)) {
+    throw new Error('Map rocks and zones must have a positive radius');
+  }
+  if (map.slowZones.some(zone => zone.factor <= 0 || zone.factor > 1)) {
+    throw new Error('Slow zone factors must be greater than 0 and at most 1');
+  }
+  if (map.foodZones.some(zone => zone.density < 1)) {
+    throw new Error('Food zone density must be at least 1');
+  }
+
+  const problems = getMapProblems(map);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+
+  return map;
+}
+
+export function getMapProblems(map: GameMap): string[] {
+  const problems: string[] = [];
+
+  map.spawns.forEach((spawn, index) => {
+    if (spawn.x < SPAWN_CLEARANCE || spawn.y < SPAWN_CLEARANCE ||
+        spawn.x > map.width - SPAWN_CLEARANCE || spawn.y > map.height - SPAWN_CLEARANCE ||
+        !isInsideArena(map, spawn.x, spawn.y, SPAWN_CLEARANCE)) {
+      problems.push(`Spawn ${index + 1} is outside the arena`);
+    } else if (hitsObstacle(map, spawn.x, spawn.y, SPAWN_CLEARANCE)) {
+      problems.push(`Spawn ${index + 1} is blocked by a wall or rock`);
+    }
+
+    for (let other = 0; other < index; other++) {
+      if (Math.hypot(spawn.x - map.spawns[other].x, spawn.y - map.spawns[other].y) < MIN_SPAWN_DISTANCE) {
+        problems.push(`Spawn ${index + 1} overlaps spawn ${other + 1}`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+export function serializeMap(map: GameMap): string {
+  return JSON.stringify(map, null, 2);
+}
+
+export function parseMap(text: string): GameMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Map file is not valid JSON');
+  }
+  return validateMap(data);
+}
@@ -0,0 +1,181 @@
+import { GameModeId, GameState, ModeState, Snake, Team } from '../types/game';
+import { killSnake } from './GamePhysics';
+import { calculateDistance } from './GameUtils';
+import { TICK_RATE } from './Simulation';
+
+export interface GameMode {
+  readonly id: GameModeId;
+  readonly name: string;
+  readonly description: string;
+  readonly respawnsAI: boolean;
+  setup(state: GameState): void;
+  onSpawn(state: GameState, snake: Snake): void;
+  canKill(victim: Snake, killer: Snake): boolean;
+  onKill(state: GameState, victim: Snake, killer: Snake): void;
+  update(state: GameState): void;
+}
+
+const TEAMS: Omit<Team, 'score'>[] = [
+  { id: 'red', name: 'Red Team', color: '#ef4444' },
+  { id: 'blue', name: 'Blue Team', color: '#3b82f6' }
+];
+
+const TIMED_ROUND_SECONDS = 180;
+const TEAM_ROUND_SECONDS = 300;
+const ZONE_GRACE_SECONDS = 30;
+const ZONE_SHRINK_SECONDS = 240;
+const ZONE_MIN_RADIUS = 300;
+
+export function createModeState(id: GameModeId, startTick: number = 0): ModeState {
+  return {
+    id,
+    startTick,
+    endsAtTick: null,
+    teams: [],
+    zone: null,
+    isOver: false,
+    winner: null
+  };
+}
+
+function startTimer(state: GameState, seconds: number) {
+  state.mode.endsAtTick = state.mode.startTick + seconds * TICK_RATE;
+}
+
+function isTimeUp(state: GameState): boolean {
+  return state.mode.endsAtTick !== null && state.tick >= state.mode.endsAtTick;
+}
+
+function endRound(state: GameState, winner: string | null) {
+  state.mode.isOver = true;
+  state.mode.winner = winner;
+}
+
+function topScorer(state: GameState): Snake | null {
+  let best: Snake | null = null;
+  state.snakes.forEach(snake => {
+    if (!snake.isDead && (!best || snake.score > best.score)) {
+      best = snake;
+    }
+  });
+  return best;
+}
+
+function zoneRadiusAt(state: GameState, startRadius: number): number {
+  const elapsed = (state.tick - state.mode.startTick) / TICK_RATE - ZONE_GRACE_SECONDS;
+  const progress = Math.max(0, Math.min(1, elapsed / ZONE_SHRINK_SECONDS));
+  return startRadius + (ZONE_MIN_RADIUS - startRadius) * progress;
+}
+
+const freeForAll: GameMode = {
+  id: 'ffa',
+  name: 'Free For All',
+  description: 'Eat, grow and survive. No time limit.',
+  respawnsAI: true,
+  setup() {},
+  onSpawn() {},
+  canKill: () => true,
+  onKill() {},
+  update() {}
+};
+
+const teamDeathmatch: GameMode = {
+  id: 'teams',
+  name: 'Team Deathmatch',
+  description: `Two teams, no friendly kills. Most kills after ${TEAM_ROUND_SECONDS / 60} minutes wins.`,
+  respawnsAI: true,
+  setup(state) {
+    state.mode.teams = TEAMS.map(team => ({ ...team, score: 0 }));
+    startTimer(state, TEAM_ROUND_SECONDS);
+  },
+  onSpawn(state, snake) {
+    const sizes = new Map<string, number>();
+    state.snakes.forEach(other => {
+      if (other.team && !other.isDead && other.id !== snake.id) {
+        sizes.set(other.team, (sizes.get(other.team) ?? 0) + 1);
+      }
+    });
+
+    let team = state.mode.teams[0];
+    state.mode.teams.forEach(candidate => {
+      if ((sizes.get(candidate.id) ?? 0) < (sizes.get(team.id) ?? 0)) {
+        team = candidate;
+      }
+    });
+
+    snake.team = team.id;
+    snake.color = team.color;
+  },
+  canKill: (victim, killer) => !victim.team || victim.team !== killer.team,
+  onKill(state, _victim, killer) {
+    const team = state.mode.teams.find(candidate => candidate.id === killer.team);
+    if (team) team.score++;
+  },
+  update(state) {
+    if (!isTimeUp(state)) return;
+
+    const [first, second] = state.mode.teams.slice().sort((a, b) => b.score - a.score);
+    endRound(state, first && (!second || first.score > second.score) ? first.name : null);
+  }
+};
+
+const timedRound: GameMode = {
+  id: 'timed',
+  name: 'Timed Round',
+  description: `Highest score after ${TIMED_ROUND_SECONDS / 60} minutes wins.`,
+  respawnsAI: true,
+  setup(state) {
+    startTimer(state, TIMED_ROUND_SECONDS);
+  },
+  onSpawn() {},
+  canKill: () => true,
+  onKill() {},
+  update(state) {
+    if (isTimeUp(state)) {
+      endRound(state, topScorer(state)?.username ?? null);
+    }
+  }
+};
+
+const battleRoyale: GameMode = {
+  id: 'royale',
+  name: 'Battle Royale',
+  description: 'The safe zone keeps shrinking. Last snake alive wins.',
+  respawnsAI: false,
+  setup(state) {
+    const { width, height } = state.mapSize;
+    state.mode.zone = { x: width / 2, y: height / 2, radius: Math.hypot(width, height) / 2 };
+  },
+  onSpawn() {},
+  canKill: () => true,
+  onKill() {},
+  update(state) {
+    const zone = state.mode.zone;
+    if (!zone) return;
+
+    const { width, height } = state.mapSize;
+    zone.radius = zoneRadiusAt(state, Math.hypot(width, height) / 2);
+
+    const alive: Snake[] = [];
+    state.snakes.forEach(snake => {
+      if (snake.isDead) return;
+
+      const head = snake.segments[0];
+      if (calculateDistance(head.x, head.y, zone.x, zone.y, state.map) > zone.radius) {
+        killSnake(state, snake, 'zone');
+      } else {
+        alive.push(snake);
+      }
+    });
+
+    if (alive.length <= 1) {
+      endRound(state, alive[0]?.username ?? null);
+    }
+  }
+};
+
+export const GAME_MODES: GameMode[] = [freeForAll, teamDeathmatch, timedRound, battleRoyale];
+
+export function getGameMode(id: GameModeId): GameMode {
+  return GAME_MODES.find(mode => mode.id === id) ?? freeForAll;
+}
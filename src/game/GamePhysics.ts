@@ -1,14 +1,28 @@
-import { Snake, Food, GameState } from '../types/game';
-import { calculateDistance, lerpAngle, generateFood } from './GameUtils';
-
-export function updateSnakePhysics(snake: Snake, deltaTime: number) {
-  const turnSpeed = 0.08 * deltaTime;
+import { DeathCause, Snake, Food, GameMap, GameState, GameRules } from '../types/game';
+import { arenaDelta, calculateDistance, lerpAngle, tagSnake } from './GameUtils';
+import type { GameMode } from './GameMode';
+import { consumeShield, hasEffect } from './PowerUps';
+import { hitsObstacle, isInsideArena, wrapIntoArena } from './GameMap';
+
+// Returns the mass burned by boosting this tick so the caller can shed it as food.
+export function updateSnakePhysics(
+  snake: Snake,
+  deltaTime: number,
+  rules: GameRules,
+  terrainSpeed: number = 1,
+  map?: GameMap
+): number {
+  const turnSpeed = rules.turnSpeed * deltaTime;
   snake.direction = lerpAngle(snake.direction, snake.targetDirection, turnSpeed);
 
-  let actualSpeed = snake.speed;
-  if (snake.isBoosting && snake.mass > 50) {
-    actualSpeed *= 1.8;
-    snake.mass -= 0.3 * deltaTime;
+  let actualSpeed = snake.speed * terrainSpeed;
+  let massSpent = 0;
+  if (hasEffect(snake, 'speed')) {
+    actualSpeed *= rules.boostMultiplier;
+  } else if (snake.isBoosting && snake.mass > rules.minBoostMass) {
+    actualSpeed *= rules.boostMultiplier;
+    massSpent = rules.boostDrain * deltaTime;
+    snake.mass -= massSpent;
     snake.score = Math.max(0, snake.score - 1);
   }
 
@@ -16,23 +30,20 @@ export function updateSnakePhysics(snake: Snake, deltaTime: number) {
   const newX = head.x + Math.cos(snake.direction) * actualSpeed * deltaTime;
   const newY = head.y + Math.sin(snake.direction) * actualSpeed * deltaTime;
 
-  snake.segments.unshift({
-    x: newX,
-    y: newY,
-    radius: head.radius
-  });
+  const newHead = { x: newX, y: newY, radius: head.radius };
+  if (map) wrapIntoArena(map, newHead);
+  snake.segments.unshift(newHead);
 
   let totalRadius = 0;
   snake.segments.forEach(seg => totalRadius += seg.radius);
 
-  const maxLength = Math.floor(snake.mass / 8);
+  const maxLength = Math.floor(snake.mass / rules.massPerSegment);
   while (snake.segments.length > maxLength) {
     snake.segments.pop();
   }
 
-  const baseRadius = 8;
-  const radiusMultiplier = Math.log(snake.mass / 10 + 1) * 2;
-  const targetRadius = baseRadius + radiusMultiplier;
+  const radiusMultiplier = Math.log(snake.mass / 10 + 1) * rules.radiusGrowth;
+  const targetRadius = rules.baseRadius + radiusMultiplier;
 
   snake.segments.forEach((segment, index) => {
     const segmentScale = 1 - (index / snake.segments.length) * 0.3;
@@ -43,8 +54,7 @@ export function updateSnakePhysics(snake: Snake, deltaTime: number) {
     const current = snake.segments[i];
     const previous = snake.segments[i - 1];
 
-    const dx = current.x - previous.x;
-    const dy = current.y - previous.y;
+    const { x: dx, y: dy } = arenaDelta(map, previous.x, previous.y, current.x, current.y);
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     const targetDistance = (previous.radius + current.radius) * 0.5;
@@ -53,122 +63,150 @@ export function updateSnakePhysics(snake: Snake, deltaTime: number) {
       const ratio = targetDistance / distance;
       current.x = previous.x + dx * ratio;
       current.y = previous.y + dy * ratio;
+      if (map) wrapIntoArena(map, current);
     }
   }
+
+  return massSpent;
+}
+
+export function shedBoostMass(gameState: GameState, snake: Snake, massSpent: number) {
+  const { random, spatial, rules } = gameState;
+  snake.shedMass = (snake.shedMass ?? 0) + massSpent;
+
+  while (snake.shedMass >= rules.boostPelletMass) {
+    snake.shedMass -= rules.boostPelletMass;
+
+    const tail = snake.segments[snake.segments.length - 1];
+    const food: Food = {
+      id: `food_boost_${random.id()}`,
+      kind: 'boost',
+      x: tail.x + (random.next() - 0.5) * tail.radius,
+      y: tail.y + (random.next() - 0.5) * tail.radius,
+      radius: 3,
+      color: snake.color,
+      value: rules.boostPelletMass / rules.massPerFood
+    };
+    wrapIntoArena(gameState.map, food);
+    gameState.foods.push(food);
+    spatial.addFood(food);
+  }
+}
+
+function announceDeath(gameState: GameState, snake: Snake, cause: DeathCause, killer?: Snake) {
+  const head = snake.segments[0];
+  gameState.events.push({
+    type: 'snakeDied',
+    victim: tagSnake(snake),
+    killer: killer ? tagSnake(killer) : undefined,
+    cause,
+    x: head.x,
+    y: head.y,
+    mass: snake.mass,
+    score: snake.score
+  });
+}
+
+export function killSnake(gameState: GameState, snake: Snake, cause: DeathCause, killer?: Snake) {
+  const { random, spatial } = gameState;
+  snake.isDead = true;
+  snake.killedBy = killer?.id;
+  spatial.removeSnake(snake);
+  announceDeath(gameState, snake, cause, killer);
+
+  const segments = snake.segments;
+  for (let j = 0; j < segments.length; j += 2) {
+    const seg = segments[j];
+    const food: Food = {
+      id: `food_death_${random.id()}`,
+      kind: 'remains',
+      x: seg.x + (random.next() - 0.5) * 20,
+      y: seg.y + (random.next() - 0.5) * 20,
+      radius: 5,
+      color: snake.color,
+      value: 2
+    };
+    wrapIntoArena(gameState.map, food);
+    gameState.foods.push(food);
+    spatial.addFood(food);
+  }
 }
 
-export function checkCollisions(gameState: GameState) {
-  const { snakes, foods, playerSnake } = gameState;
+export function checkCollisions(gameState: GameState, mode: GameMode) {
+  const { snakes, spatial, rules, map } = gameState;
+  const eaten = new Set<Food>();
 
   snakes.forEach(snake => {
     if (snake.isDead) return;
 
     const head = snake.segments[0];
 
-    for (let i = foods.length - 1; i >= 0; i--) {
-      const food = foods[i];
-      const distance = calculateDistance(head.x, head.y, food.x, food.y);
+    spatial.queryFood(head.x, head.y, head.radius, map).forEach(food => {
+      if (eaten.has(food)) return;
 
-      if (distance < head.radius + food.radius) {
-        snake.mass += food.value * 5;
-        snake.score += 1;
-        foods.splice(i, 1);
-      }
-    }
+      const distance = calculateDistance(head.x, head.y, food.x, food.y, map);
 
-    snakes.forEach(otherSnake => {
-      if (otherSnake.id === snake.id || otherSnake.isDead) return;
-
-      for (let i = 1; i < otherSnake.segments.length; i++) {
-        const segment = otherSnake.segments[i];
-        const distance = calculateDistance(head.x, head.y, segment.x, segment.y);
-
-        if (distance < head.radius + segment.radius - 5) {
-          snake.isDead = true;
-
-          const segments = snake.segments;
-          for (let j = 0; j < segments.length; j += 2) {
-            const seg = segments[j];
-            foods.push({
-              id: `food_death_${Math.random()}`,
-              x: seg.x + (Math.random() - 0.5) * 20,
-              y: seg.y + (Math.random() - 0.5) * 20,
-              radius: 5,
-              color: snake.color,
-              value: 2
-            });
-          }
-
-          if (!snake.isAI) {
-            otherSnake.kills++;
-            otherSnake.score += 50;
-          }
-
-          break;
+      if (distance < head.radius + food.radius) {
+        snake.mass += food.value * rules.massPerFood;
+        if (food.kind !== 'boost') {
+          snake.score += 1;
         }
+        eaten.add(food);
+        spatial.removeFood(food);
+        gameState.events.push({
+          type: 'foodEaten',
+          snakeId: snake.id,
+          kind: food.kind,
+          x: food.x,
+          y: food.y,
+          color: food.color,
+          value: food.value
+        });
       }
     });
 
-    if (head.x < 0 || head.x > gameState.mapSize.width ||
-        head.y < 0 || head.y > gameState.mapSize.height) {
-      snake.isDead = true;
+    // The deepest overlap wins so the outcome never depends on grid iteration order.
+    let killer: Snake | null = null;
+    let deepestOverlap = 0;
+    const nearbySegments = hasEffect(snake, 'ghost') ? [] : spatial.querySegments(head.x, head.y, head.radius, map);
+    for (const { snake: otherSnake, segment } of nearbySegments) {
+      if (otherSnake.id === snake.id || otherSnake.isDead) continue;
+      if (segment === otherSnake.segments[0]) continue;
+      if (!mode.canKill(snake, otherSnake)) continue;
+
+      const distance = calculateDistance(head.x, head.y, segment.x, segment.y, map);
+      const overlap = head.radius + segment.radius - 5 - distance;
+
+      if (overlap > deepestOverlap) {
+        deepestOverlap = overlap;
+        killer = otherSnake;
+      }
     }
-  });
-}
-
-export function updateAI(snake: Snake, foods: Food[], allSnakes: Snake[]) {
-  const head = snake.segments[0];
-  let targetX = head.x;
-  let targetY = head.y;
-  let foundTarget = false;
 
-  const visionRange = 300;
-
-  const nearbyFood = foods.filter(food => {
-    const distance = calculateDistance(head.x, head.y, food.x, food.y);
-    return distance < visionRange;
-  });
-
-  if (nearbyFood.length > 0) {
-    nearbyFood.sort((a, b) => {
-      const distA = calculateDistance(head.x, head.y, a.x, a.y);
-      const distB = calculateDistance(head.x, head.y, b.x, b.y);
-      return distA - distB;
-    });
+    if (killer && !consumeShield(gameState, snake)) {
+      // Head on when the two heads touch while moving at each other; cutting across in front is a body hit.
+      const killerHead = killer.segments[0];
+      const headOn = Math.cos(snake.direction - killer.direction) < -0.5
+        && calculateDistance(head.x, head.y, killerHead.x, killerHead.y, map) < head.radius + killerHead.radius;
+      killSnake(gameState, snake, headOn ? 'headOn' : 'body', killer);
 
-    const closestFood = nearbyFood[0];
-    targetX = closestFood.x;
-    targetY = closestFood.y;
-    foundTarget = true;
-  }
+      killer.kills++;
+      killer.score += rules.killBonus;
+      mode.onKill(gameState, snake, killer);
+    }
 
-  const dangerSnakes = allSnakes.filter(other => {
-    if (other.id === snake.id || other.isDead) return false;
-    if (other.mass <= snake.mass) return false;
+    if (!snake.isDead && hitsObstacle(map, head.x, head.y, head.radius * 0.8)) {
+      killSnake(gameState, snake, 'obstacle');
+    }
 
-    const distance = calculateDistance(head.x, head.y, other.segments[0].x, other.segments[0].y);
-    return distance < visionRange * 0.7;
+    if (!snake.isDead && !isInsideArena(map, head.x, head.y)) {
+      snake.isDead = true;
+      spatial.removeSnake(snake);
+      announceDeath(gameState, snake, 'border');
+    }
   });
 
-  if (dangerSnakes.length > 0) {
-    const dangerSnake = dangerSnakes[0];
-    const dangerHead = dangerSnake.segments[0];
-
-    targetX = head.x + (head.x - dangerHead.x);
-    targetY = head.y + (head.y - dangerHead.y);
-    foundTarget = true;
-    snake.isBoosting = true;
-  } else {
-    snake.isBoosting = false;
-  }
-
-  if (!foundTarget) {
-    if (Math.random() < 0.02) {
-      snake.targetDirection += (Math.random() - 0.5) * 0.5;
-    }
-  } else {
-    const dx = targetX - head.x;
-    const dy = targetY - head.y;
-    snake.targetDirection = Math.atan2(dy, dx);
+  if (eaten.size > 0) {
+    gameState.foods = gameState.foods.filter(food => !eaten.has(food));
   }
 }
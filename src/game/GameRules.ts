@@ -0,0 +1,127 @@
+import { GameRules } from '../types/game';
+
+export interface RulesPreset {
+  id: string;
+  name: string;
+  rules: GameRules;
+}
+
+export const DEFAULT_RULES: GameRules = {
+  mapWidth: 5000,
+  mapHeight: 5000,
+  initialFoodCount: 500,
+  maxAISnakes: 15,
+  turnSpeed: 0.08,
+  boostMultiplier: 1.8,
+  boostDrain: 0.3,
+  boostPelletMass: 3,
+  minBoostMass: 50,
+  massPerSegment: 8,
+  massPerFood: 5,
+  baseRadius: 8,
+  radiusGrowth: 2,
+  killBonus: 50,
+  maxPowerUps: 6
+};
+
+const RULE_LIMITS: Record<keyof GameRules, { min: number; max: number; integer?: boolean }> = {
+  mapWidth: { min: 1000, max: 20000, integer: true },
+  mapHeight: { min: 1000, max: 20000, integer: true },
+  initialFoodCount: { min: 0, max: 5000, integer: true },
+  maxAISnakes: { min: 0, max: 100, integer: true },
+  turnSpeed: { min: 0.01, max: 1 },
+  boostMultiplier: { min: 1, max: 5 },
+  boostDrain: { min: 0, max: 5 },
+  boostPelletMass: { min: 0.5, max: 50 },
+  minBoostMass: { min: 0, max: 1000 },
+  massPerSegment: { min: 1, max: 100 },
+  massPerFood: { min: 0, max: 100 },
+  baseRadius: { min: 2, max: 50 },
+  radiusGrowth: { min: 0, max: 10 },
+  killBonus: { min: 0, max: 10000 },
+  maxPowerUps: { min: 0, max: 50, integer: true }
+};
+
+export const RULES_PRESETS: RulesPreset[] = [
+  { id: 'classic', name: 'Classic', rules: DEFAULT_RULES },
+  {
+    id: 'big-arena',
+    name: 'Big Arena',
+    rules: { ...DEFAULT_RULES, mapWidth: 9000, mapHeight: 9000, initialFoodCount: 1500, maxAISnakes: 40, maxPowerUps: 15 }
+  },
+  {
+    id: 'turbo',
+    name: 'Turbo',
+    rules: { ...DEFAULT_RULES, turnSpeed: 0.12, boostMultiplier: 2.4, boostDrain: 0.5 }
+  },
+  {
+    id: 'hardcore',
+    name: 'Hardcore',
+    rules: { ...DEFAULT_RULES, initialFoodCount: 250, massPerFood: 3, boostDrain: 0.6, killBonus: 150, maxPowerUps: 0 }
+  }
+];
+
+export function getRulesPreset(id: string): RulesPreset | undefined {
+  return RULES_PRESETS.find(preset => preset.id === id);
+}
+
+// Unknown keys are rejected so a typo in a designer's file never silently falls back to a default.
+export function validateRules(input: unknown, base: GameRules = DEFAULT_RULES): GameRules {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Ruleset must be a JSON object');
+  }
+
+  const rules: GameRules = { ...base };
+  const errors: string[] = [];
+
+  Object.entries(input).forEach(([key, value]) => {
+    if (!(key in RULE_LIMITS)) {
+      errors.push(`unknown rule "${key}"`);
+      return;
+    }
+
+    const name = key as keyof GameRules;
+    const limits = RULE_LIMITS[name];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${name} must be a number`);
+    } else if (limits.integer && !Number.isInteger(value)) {
+      errors.push(`${name} must be a whole number`);
+    } else if (value < limits.min || value > limits.max) {
+      errors.push(`${name} must be between ${limits.min} and ${limits.max}`);
+    } else {
+      rules[name] = value;
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ruleset: ${errors.join(', ')}`);
+  }
+
+  return rules;
+}
+
+// A ruleset file may name a preset to start from and override any subset of its values.
+export function parseRules(text: string): GameRules {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Ruleset file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Ruleset must be a JSON object');
+  }
+
+  const { preset, ...overrides } = data as Record<string, unknown>;
+  let base = DEFAULT_RULES;
+  if (preset !== undefined) {
+    const found = typeof preset === 'string' ? getRulesPreset(preset) : undefined;
+    if (!found) {
+      throw new Error(`Unknown ruleset preset: ${String(preset)}`);
+    }
+    base = found.rules;
+  }
+
+  return validateRules(overrides, base);
+}
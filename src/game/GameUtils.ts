@@ -1,22 +1,24 @@
-import { Food, Snake } from '../types/game';
+import { AIPersonality, Food, GameMap, Snake, SnakeTag, Vector2 } from '../types/game';
+import { SeededRandom } from './Random';
 
-export function generateFood(mapWidth: number, mapHeight: number): Food {
+export function generateFood(random: SeededRandom, position: Vector2): Food {
   const colors = [
     '#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff',
     '#ff8844', '#88ff44', '#4488ff', '#ff4488', '#88ff88', '#8844ff'
   ];
 
   return {
-    id: `food_${Math.random().toString(36).substr(2, 9)}`,
-    x: Math.random() * mapWidth,
-    y: Math.random() * mapHeight,
-    radius: 4 + Math.random() * 3,
-    color: colors[Math.floor(Math.random() * colors.length)],
+    id: `food_${random.id()}`,
+    kind: 'pellet',
+    x: position.x,
+    y: position.y,
+    radius: 4 + random.next() * 3,
+    color: random.pick(colors),
     value: 1
   };
 }
 
-export function generateAISnake(mapWidth: number, mapHeight: number, index: number): Snake {
+export function generateAISnake(random: SeededRandom, position: Vector2, index: number): Snake {
   const names = [
     'SlitherBot', 'SnakeAI', 'Viper', 'Cobra', 'Python', 'Anaconda',
     'Sidewinder', 'Rattler', 'Mamba', 'Adder', 'Boa', 'Constrictor',
@@ -28,10 +30,11 @@ export function generateAISnake(mapWidth: number, mapHeight: number, index: numb
     '#a29bfe', '#fd79a8', '#fdcb6e', '#e17055', '#00b894'
   ];
 
-  const x = Math.random() * mapWidth;
-  const y = Math.random() * mapHeight;
+  const personalities: AIPersonality[] = ['greedy', 'aggressive', 'cautious'];
+
+  const { x, y } = position;
   const segments: { x: number; y: number; radius: number }[] = [];
-  const initialSegments = 8 + Math.floor(Math.random() * 5);
+  const initialSegments = 8 + random.int(5);
   const segmentRadius = 8;
 
   for (let i = 0; i < initialSegments; i++) {
@@ -39,26 +42,41 @@ export function generateAISnake(mapWidth: number, mapHeight: number, index: numb
   }
 
   return {
-    id: `ai_${index}_${Date.now()}`,
+    id: `ai_${index}_${random.id()}`,
     username: names[index % names.length],
     segments,
-    color: colors[Math.floor(Math.random() * colors.length)],
+    color: random.pick(colors),
     skin: 'default',
-    direction: Math.random() * Math.PI * 2,
-    targetDirection: Math.random() * Math.PI * 2,
-    speed: 2.5 + Math.random() * 1,
+    direction: random.next() * Math.PI * 2,
+    targetDirection: random.next() * Math.PI * 2,
+    speed: 2.5 + random.next() * 1,
     mass: initialSegments * 10,
     isBoosting: false,
     isDead: false,
     score: 0,
     kills: 0,
-    isAI: true
+    isAI: true,
+    brain: { personality: random.pick(personalities), nextThinkTick: 0 }
   };
 }
 
-export function calculateDistance(x1: number, y1: number, x2: number, y2: number): number {
-  const dx = x2 - x1;
-  const dy = y2 - y1;
+export function tagSnake(snake: Snake): SnakeTag {
+  return { id: snake.id, username: snake.username, color: snake.color, isAI: !!snake.isAI, team: snake.team };
+}
+
+// On a torus arena the shortest way between two points may cross an edge, so deltas are folded
+// into [-size / 2, size / 2].
+export function wrapDelta(delta: number, size: number): number {
+  return delta - size * Math.round(delta / size);
+}
+
+export function arenaDelta(map: GameMap | undefined, x1: number, y1: number, x2: number, y2: number): Vector2 {
+  if (map?.shape !== 'torus') return { x: x2 - x1, y: y2 - y1 };
+  return { x: wrapDelta(x2 - x1, map.width), y: wrapDelta(y2 - y1, map.height) };
+}
+
+export function calculateDistance(x1: number, y1: number, x2: number, y2: number, map?: GameMap): number {
+  const { x: dx, y: dy } = arenaDelta(map, x1, y1, x2, y2);
   return Math.sqrt(dx * dx + dy * dy);
 }
 
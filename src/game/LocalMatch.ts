@@ -0,0 +1,101 @@
+import { AIDifficulty, GameEvent, GameMap, GameModeId, GameRules, GameState, SnakeInput } from '../types/game';
+import { Simulation } from './Simulation';
+import { Replay, ReplayRecorder, quantizeInput } from './Replay';
+
+export interface MatchConfig {
+  seed: number;
+  mode: GameModeId;
+  rules: GameRules;
+  map?: GameMap;
+  difficulty: AIDifficulty;
+}
+
+export interface PlayerProfile {
+  username: string;
+  color: string;
+  skin: string;
+  faceUrl?: string;
+}
+
+export const PLAYER_ID = 'player';
+
+// An offline game: the simulation, the local player's snake, the replay of the current life and the
+// events of the ticks not yet shown.
+export class LocalMatch {
+  readonly simulation: Simulation = new Simulation();
+  public spawnTick: number = 0;
+  private recorder: ReplayRecorder | null = null;
+  private finishedReplay: Replay | null = null;
+  private events: GameEvent[] = [];
+
+  public get state(): GameState {
+    return this.simulation.getState();
+  }
+
+  public reset(config: MatchConfig, player: PlayerProfile) {
+    this.simulation.reset(config.seed, config.mode, config.rules, config.map, config.difficulty);
+    this.events = [];
+    this.spawnPlayer(player);
+  }
+
+  public spawnPlayer(player: PlayerProfile) {
+    const { username, color, skin, faceUrl } = player;
+    this.state.playerSnake = this.simulation.spawnSnake(PLAYER_ID, username, color, skin, faceUrl);
+    this.spawnTick = this.simulation.tick;
+    this.recorder = new ReplayRecorder(this.simulation.serialize(), PLAYER_ID, { username, color, skin, faceUrl });
+    this.events.push(...this.simulation.takeEvents());
+  }
+
+  // Steps the world; the input steers the player only while it is alive.
+  public advance(ticks: number, input: SnakeInput) {
+    for (let i = 0; i < ticks; i++) {
+      const playerSnake = this.state.playerSnake;
+      if (!playerSnake) return;
+
+      if (this.state.mode.isOver) {
+        this.finishRecording();
+        return;
+      }
+
+      if (playerSnake.isDead) {
+        this.step();
+        continue;
+      }
+
+      const quantized = quantizeInput(input);
+      this.recorder?.record(quantized);
+      this.simulation.setInput(playerSnake.id, quantized);
+      this.step();
+
+      if (playerSnake.isDead) {
+        this.finishRecording();
+      }
+    }
+  }
+
+  // Returns the replay of a life that ended since the last call.
+  public takeReplay(): Replay | null {
+    const replay = this.finishedReplay;
+    this.finishedReplay = null;
+    return replay;
+  }
+
+  // Returns the events of every tick stepped since the last call.
+  public takeEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private step() {
+    this.simulation.step();
+    this.events.push(...this.simulation.takeEvents());
+  }
+
+  private finishRecording() {
+    if (!this.recorder) return;
+
+    this.finishedReplay = this.recorder.finish();
+    this.recorder = null;
+  }
+}
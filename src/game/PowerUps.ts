@@ -0,0 +1,110 @@
+import { GameState, PowerUp, PowerUpType, Snake, Vector2 } from '../types/game';
+import { arenaDelta, calculateDistance } from './GameUtils';
+import { randomOpenPosition, wrapIntoArena } from './GameMap';
+import { SeededRandom } from './Random';
+import { TICK_RATE } from './Simulation';
+
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  name: string;
+  color: string;
+  symbol: string;
+  seconds: number;
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  magnet: { type: 'magnet', name: 'Magnet', color: '#f472b6', symbol: 'M', seconds: 10 },
+  shield: { type: 'shield', name: 'Shield', color: '#60a5fa', symbol: 'S', seconds: 15 },
+  speed: { type: 'speed', name: 'Speed', color: '#facc15', symbol: '>', seconds: 6 },
+  ghost: { type: 'ghost', name: 'Ghost', color: '#e5e7eb', symbol: 'G', seconds: 5 }
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+const SPAWN_CHANCE = 0.004;
+const MAGNET_RANGE = 160;
+const MAGNET_PULL = 4;
+const SHIELD_GRACE_SECONDS = 1;
+
+export function hasEffect(snake: Snake, type: PowerUpType): boolean {
+  return snake.effects?.[type] !== undefined;
+}
+
+export function grantEffect(state: GameState, snake: Snake, type: PowerUpType, seconds: number = POWER_UPS[type].seconds) {
+  const expiresAt = state.tick + Math.round(seconds * TICK_RATE);
+  snake.effects = { ...snake.effects, [type]: Math.max(expiresAt, snake.effects?.[type] ?? 0) };
+}
+
+function clearEffect(snake: Snake, type: PowerUpType) {
+  if (!snake.effects) return;
+
+  delete snake.effects[type];
+  if (Object.keys(snake.effects).length === 0) {
+    snake.effects = undefined;
+  }
+}
+
+// A shield absorbs the hit and leaves a moment of ghosting so the snake can get clear of the body it struck.
+export function consumeShield(state: GameState, snake: Snake): boolean {
+  if (!hasEffect(snake, 'shield')) return false;
+
+  clearEffect(snake, 'shield');
+  grantEffect(state, snake, 'ghost', SHIELD_GRACE_SECONDS);
+  return true;
+}
+
+export function generatePowerUp(random: SeededRandom, position: Vector2): PowerUp {
+  return {
+    id: `powerup_${random.id()}`,
+    type: random.pick(POWER_UP_TYPES),
+    x: position.x,
+    y: position.y,
+    radius: 14
+  };
+}
+
+export function updatePowerUps(state: GameState) {
+  const { random, rules, map } = state;
+
+  if (state.powerUps.length < rules.maxPowerUps && random.next() < SPAWN_CHANCE) {
+    state.powerUps.push(generatePowerUp(random, randomOpenPosition(random, map, 100)));
+  }
+
+  state.snakes.forEach(snake => {
+    if (snake.isDead) return;
+
+    if (snake.effects) {
+      (Object.keys(snake.effects) as PowerUpType[]).forEach(type => {
+        if (state.tick >= (snake.effects?.[type] ?? 0)) clearEffect(snake, type);
+      });
+    }
+
+    const head = snake.segments[0];
+    state.powerUps = state.powerUps.filter(powerUp => {
+      if (calculateDistance(head.x, head.y, powerUp.x, powerUp.y, map) > head.radius + powerUp.radius) return true;
+
+      grantEffect(state, snake, powerUp.type);
+      return false;
+    });
+
+    if (hasEffect(snake, 'magnet')) {
+      pullFood(state, snake);
+    }
+  });
+}
+
+function pullFood(state: GameState, snake: Snake) {
+  const head = snake.segments[0];
+  const { map } = state;
+
+  state.spatial.queryFood(head.x, head.y, MAGNET_RANGE, map).forEach(food => {
+    const toHead = arenaDelta(map, food.x, food.y, head.x, head.y);
+    const distance = Math.hypot(toHead.x, toHead.y);
+    if (distance > MAGNET_RANGE || distance === 0) return;
+
+    const step = Math.min(distance, MAGNET_PULL);
+    food.x += (toHead.x / distance) * step;
+    food.y += (toHead.y / distance) * step;
+    wrapIntoArena(map, food);
+    state.spatial.moveFood(food);
+  });
+}
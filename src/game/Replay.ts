@@ -0,0 +1,205 @@
+import { SnakeInput } from '../types/game';
+import { Simulation, WorldSnapshot, TICK_RATE } from './Simulation';
+
+export const REPLAY_VERSION = 8;
+
+const DIRECTION_STEPS = 4096;
+
+export interface ReplayConfig {
+  username: string;
+  color: string;
+  skin: string;
+  faceUrl?: string;
+  tickRate: number;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  config: ReplayConfig;
+  playerId: string;
+  startTick: number;
+  endTick: number;
+  recordedAt: string;
+  initialState: WorldSnapshot;
+  // Run-length encoded [packedInput, tickCount, packedInput, tickCount, ...]
+  inputs: number[];
+}
+
+// Inputs are quantized before they reach the simulation so playback sees exactly what was simulated.
+export function quantizeInput(input: SnakeInput): SnakeInput {
+  const turn = Math.PI * 2;
+  const normalized = ((input.targetDirection % turn) + turn) % turn;
+  const step = Math.round((normalized / turn) * DIRECTION_STEPS) % DIRECTION_STEPS;
+  return { targetDirection: (step / DIRECTION_STEPS) * turn, boost: input.boost };
+}
+
+function packInput(input: SnakeInput): number {
+  const turn = Math.PI * 2;
+  const step = Math.round((input.targetDirection / turn) * DIRECTION_STEPS) % DIRECTION_STEPS;
+  return step * 2 + (input.boost ? 1 : 0);
+}
+
+function unpackInput(packed: number): SnakeInput {
+  return {
+    targetDirection: (Math.floor(packed / 2) / DIRECTION_STEPS) * Math.PI * 2,
+    boost: packed % 2 === 1
+  };
+}
+
+export class ReplayRecorder {
+  private readonly initialState: WorldSnapshot;
+  private readonly config: ReplayConfig;
+  private readonly playerId: string;
+  private inputs: number[] = [];
+  private tickCount: number = 0;
+
+  constructor(initialState: WorldSnapshot, playerId: string, config: Omit<ReplayConfig, 'tickRate'>) {
+    this.initialState = initialState;
+    this.playerId = playerId;
+    this.config = { ...config, tickRate: TICK_RATE };
+  }
+
+  public record(input: SnakeInput) {
+    const packed = packInput(input);
+    const last = this.inputs.length - 2;
+
+    if (last >= 0 && this.inputs[last] === packed) {
+      this.inputs[last + 1]++;
+    } else {
+      this.inputs.push(packed, 1);
+    }
+    this.tickCount++;
+  }
+
+  public finish(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.initialState.seed,
+      config: this.config,
+      playerId: this.playerId,
+      startTick: this.initialState.tick,
+      endTick: this.initialState.tick + this.tickCount,
+      recordedAt: new Date().toISOString(),
+      initialState: this.initialState,
+      inputs: this.inputs.slice()
+    };
+  }
+}
+
+export class ReplayPlayer {
+  readonly replay: Replay;
+  readonly simulation: Simulation;
+  private inputs: SnakeInput[] = [];
+  private keyframes: Map<number, WorldSnapshot> = new Map();
+
+  private readonly KEYFRAME_INTERVAL = TICK_RATE * 5;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.simulation = new Simulation();
+
+    for (let i = 0; i < replay.inputs.length; i += 2) {
+      const input = unpackInput(replay.inputs[i]);
+      for (let n = 0; n < replay.inputs[i + 1]; n++) {
+        this.inputs.push(input);
+      }
+    }
+
+    this.restart();
+  }
+
+  public get tick(): number {
+    return this.simulation.tick;
+  }
+
+  public get isFinished(): boolean {
+    return this.simulation.tick >= this.replay.endTick;
+  }
+
+  public restart() {
+    this.simulation.restore(this.replay.initialState);
+    this.attachPlayer();
+  }
+
+  public step() {
+    if (this.isFinished) return;
+
+    const offset = this.simulation.tick - this.replay.startTick;
+    if (offset % this.KEYFRAME_INTERVAL === 0 && !this.keyframes.has(offset)) {
+      this.keyframes.set(offset, this.simulation.serialize());
+    }
+
+    const input = this.inputs[offset];
+    if (input) {
+      this.simulation.setInput(this.replay.playerId, input);
+    }
+    this.simulation.step();
+  }
+
+  public seek(tick: number) {
+    const target = Math.max(this.replay.startTick, Math.min(this.replay.endTick, Math.round(tick)));
+    const offset = target - this.replay.startTick;
+
+    let keyframeOffset = -1;
+    this.keyframes.forEach((_, frameOffset) => {
+      if (frameOffset <= offset && frameOffset > keyframeOffset) {
+        keyframeOffset = frameOffset;
+      }
+    });
+
+    const currentOffset = this.simulation.tick - this.replay.startTick;
+    if (currentOffset > offset || keyframeOffset > currentOffset) {
+      const keyframe = this.keyframes.get(keyframeOffset);
+      if (keyframe) {
+        this.simulation.restore(keyframe);
+        this.attachPlayer();
+      } else {
+        this.restart();
+      }
+    }
+
+    while (this.simulation.tick < target) {
+      this.step();
+    }
+  }
+
+  private attachPlayer() {
+    const state = this.simulation.getState();
+    state.playerSnake = state.snakes.get(this.replay.playerId) ?? null;
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(text: string): Replay {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay file is empty');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (!data.initialState || !Array.isArray(data.initialState.snakes) || !Array.isArray(data.initialState.foods)) {
+    throw new Error('Replay is missing its initial state');
+  }
+  if (!Array.isArray(data.inputs) || data.inputs.length % 2 !== 0) {
+    throw new Error('Replay input log is corrupt');
+  }
+  if (typeof data.playerId !== 'string' || typeof data.startTick !== 'number' || typeof data.endTick !== 'number') {
+    throw new Error('Replay header is incomplete');
+  }
+  if (data.config?.tickRate !== TICK_RATE) {
+    throw new Error(`Replay was recorded at ${data.config?.tickRate} ticks per second`);
+  }
+
+  return data as Replay;
+}
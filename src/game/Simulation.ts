@@ -0,0 +1,341 @@
+import { AIBrain, AIDifficulty, Snake, Food, GameEvent, GameMap, GameState, GameModeId, GameRules, ModeState, PowerUp, SnakeInput } from '../types/game';
+import { generateFood, generateAISnake, tagSnake } from './GameUtils';
+import { updateSnakePhysics, checkCollisions, shedBoostMass } from './GamePhysics';
+import { updateAI } from './AI';
+import { SeededRandom, createSeed } from './Random';
+import { SpatialIndex } from './SpatialGrid';
+import { GameMode, createModeState, getGameMode } from './GameMode';
+import { DEFAULT_RULES } from './GameRules';
+import { updatePowerUps } from './PowerUps';
+import { createOpenMap, randomFoodPosition, randomOpenPosition, randomSpawnPoint, terrainSpeedAt } from './GameMap';
+
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+
+export interface SimulationOptions {
+  seed?: number;
+  mode?: GameModeId;
+  rules?: GameRules;
+  map?: GameMap;
+  difficulty?: AIDifficulty;
+}
+
+export interface WorldSnapshot {
+  tick: number;
+  seed: number;
+  randomState: number;
+  snakes: Snake[];
+  foods: Food[];
+  powerUps: PowerUp[];
+  inputs: [string, SnakeInput][];
+  mode: ModeState;
+  rules: GameRules;
+  map: GameMap;
+  aiDifficulty: AIDifficulty;
+}
+
+export function createGameState(
+  rules: GameRules = DEFAULT_RULES,
+  seed: number = createSeed(),
+  map: GameMap = createOpenMap(rules.mapWidth, rules.mapHeight)
+): GameState {
+  return {
+    snakes: new Map(),
+    foods: [],
+    powerUps: [],
+    playerSnake: null,
+    mapSize: { width: map.width, height: map.height },
+    random: new SeededRandom(seed),
+    tick: 0,
+    spatial: new SpatialIndex(),
+    mode: createModeState('ffa'),
+    rules,
+    map,
+    aiDifficulty: 'normal',
+    events: []
+  };
+}
+
+function cloneModeState(mode: ModeState): ModeState {
+  return {
+    ...mode,
+    teams: mode.teams.map(team => ({ ...team })),
+    zone: mode.zone ? { ...mode.zone } : null
+  };
+}
+
+export class Simulation {
+  private state: GameState;
+  private inputs: Map<string, SnakeInput> = new Map();
+  private mode: GameMode;
+  // Snakes that were burning mass last tick, so a boost is announced once when it starts.
+  private boosting: Set<string> = new Set();
+
+  private readonly SPAWN_CLEARANCE = 120;
+
+  constructor(options: SimulationOptions = {}) {
+    this.state = createGameState(options.rules, options.seed, options.map);
+    this.mode = getGameMode(options.mode ?? 'ffa');
+    this.state.mode = createModeState(this.mode.id);
+    this.state.aiDifficulty = options.difficulty ?? 'normal';
+  }
+
+  public reset(
+    seed: number = createSeed(),
+    mode: GameModeId = this.mode.id,
+    rules: GameRules = this.state.rules,
+    map: GameMap = createOpenMap(rules.mapWidth, rules.mapHeight),
+    difficulty: AIDifficulty = this.state.aiDifficulty
+  ) {
+    this.state.random = new SeededRandom(seed);
+    this.state.tick = 0;
+    this.state.rules = rules;
+    this.state.map = map;
+    this.state.mapSize = { width: map.width, height: map.height };
+    this.state.aiDifficulty = difficulty;
+    this.startRound(mode);
+  }
+
+  // Starts a fresh round without rewinding the tick counter, so connected clients keep accepting snapshots.
+  public startRound(mode: GameModeId = this.mode.id) {
+    const state = this.state;
+    const { random, rules, map } = state;
+    state.playerSnake = null;
+    state.snakes.clear();
+    state.spatial.clear();
+    state.events = [];
+    this.inputs.clear();
+    this.boosting.clear();
+
+    this.mode = getGameMode(mode);
+    state.mode = createModeState(mode, state.tick);
+    this.mode.setup(state);
+
+    state.foods = [];
+    state.powerUps = [];
+    for (let i = 0; i < rules.initialFoodCount; i++) {
+      this.addFood(generateFood(random, randomFoodPosition(random, map)));
+    }
+
+    for (let i = 0; i < rules.maxAISnakes; i++) {
+      this.addSnake(generateAISnake(random, randomOpenPosition(random, map, this.SPAWN_CLEARANCE), i));
+    }
+  }
+
+  public spawnSnake(id: string, username: string, color: string, skin: string, faceUrl?: string): Snake {
+    const { x: startX, y: startY } = randomSpawnPoint(this.state.random, this.state.map, this.SPAWN_CLEARANCE);
+    return this.placeSnake(this.createSnake(id, username, startX, startY, color, skin, faceUrl));
+  }
+
+  public spawnBot(id: string, username: string, color: string, brain: AIBrain): Snake {
+    const { x: startX, y: startY } = randomSpawnPoint(this.state.random, this.state.map, this.SPAWN_CLEARANCE);
+    const snake = this.createSnake(id, username, startX, startY, color, 'default');
+    snake.isAI = true;
+    snake.brain = { ...brain };
+    return this.placeSnake(snake);
+  }
+
+  public removeSnake(id: string) {
+    const snake = this.state.snakes.get(id);
+    if (!snake) return;
+
+    this.state.snakes.delete(id);
+    this.state.spatial.removeSnake(snake);
+    this.inputs.delete(id);
+    this.boosting.delete(id);
+  }
+
+  public setInput(snakeId: string, input: SnakeInput) {
+    this.inputs.set(snakeId, input);
+  }
+
+  public step() {
+    const state = this.state;
+    const { random, rules, map } = state;
+    if (state.mode.isOver) return;
+
+    this.inputs.forEach((input, id) => {
+      const snake = state.snakes.get(id);
+      if (!snake || snake.isDead) return;
+
+      snake.targetDirection = input.targetDirection;
+      snake.isBoosting = input.boost;
+    });
+
+    state.snakes.forEach(snake => {
+      if (snake.isDead) {
+        this.boosting.delete(snake.id);
+        return;
+      }
+
+      if (snake.isAI) {
+        updateAI(snake, state);
+      }
+
+      const head = snake.segments[0];
+      const massSpent = updateSnakePhysics(snake, 60 / TICK_RATE, rules, terrainSpeedAt(map, head.x, head.y), map);
+      if (massSpent > 0) {
+        shedBoostMass(state, snake, massSpent);
+        if (!this.boosting.has(snake.id)) {
+          this.boosting.add(snake.id);
+          state.events.push({ type: 'boostStarted', snakeId: snake.id });
+        }
+      } else {
+        this.boosting.delete(snake.id);
+      }
+      state.spatial.syncSnake(snake);
+    });
+
+    updatePowerUps(state);
+    checkCollisions(state, this.mode);
+    this.mode.update(state);
+
+    if (state.foods.length < rules.initialFoodCount) {
+      const toAdd = rules.initialFoodCount - state.foods.length;
+      for (let i = 0; i < toAdd; i++) {
+        this.addFood(generateFood(random, randomFoodPosition(random, map)));
+      }
+    }
+
+    state.snakes.forEach((snake, id) => {
+      if (snake.isDead && snake.isAI && this.mode.respawnsAI) {
+        state.snakes.delete(id);
+        state.spatial.removeSnake(snake);
+        this.addSnake(generateAISnake(random, randomOpenPosition(random, map, this.SPAWN_CLEARANCE), random.int(1000)));
+      }
+    });
+
+    state.tick++;
+  }
+
+  public getState(): GameState {
+    return this.state;
+  }
+
+  // Events pile up in `state.events` until taken, so whoever steps the simulation should take them
+  // after every step and spawn.
+  public takeEvents(): GameEvent[] {
+    const events = this.state.events;
+    this.state.events = [];
+    return events;
+  }
+
+  public serialize(): WorldSnapshot {
+    const state = this.state;
+    return {
+      tick: state.tick,
+      seed: state.random.seed,
+      randomState: state.random.getState(),
+      snakes: Array.from(state.snakes.values()).map(snake => ({
+        ...snake,
+        segments: snake.segments.map(segment => ({ ...segment })),
+        effects: snake.effects ? { ...snake.effects } : undefined,
+        brain: snake.brain ? { ...snake.brain } : undefined
+      })),
+      foods: state.foods.map(food => ({ ...food })),
+      powerUps: state.powerUps.map(powerUp => ({ ...powerUp })),
+      inputs: Array.from(this.inputs.entries()).map(([id, input]) => [id, { ...input }]),
+      mode: cloneModeState(state.mode),
+      rules: { ...state.rules },
+      map: state.map,
+      aiDifficulty: state.aiDifficulty
+    };
+  }
+
+  public restore(snapshot: WorldSnapshot) {
+    const state = this.state;
+    state.random = new SeededRandom(snapshot.seed);
+    state.random.setState(snapshot.randomState);
+    state.tick = snapshot.tick;
+    state.rules = { ...snapshot.rules };
+    state.map = snapshot.map;
+    state.mapSize = { width: snapshot.map.width, height: snapshot.map.height };
+    state.aiDifficulty = snapshot.aiDifficulty;
+    state.playerSnake = null;
+    state.snakes.clear();
+    state.spatial.clear();
+    state.foods = [];
+    state.events = [];
+    this.boosting.clear();
+
+    snapshot.snakes.forEach(snake => {
+      const copy = {
+        ...snake,
+        segments: snake.segments.map(segment => ({ ...segment })),
+        effects: snake.effects ? { ...snake.effects } : undefined,
+        brain: snake.brain ? { ...snake.brain } : undefined
+      };
+      state.snakes.set(copy.id, copy);
+      if (!copy.isDead) {
+        state.spatial.syncSnake(copy);
+      }
+    });
+    snapshot.foods.forEach(food => this.addFood({ ...food }));
+    state.powerUps = snapshot.powerUps.map(powerUp => ({ ...powerUp }));
+
+    this.inputs = new Map(snapshot.inputs.map(([id, input]) => [id, { ...input }]));
+    this.mode = getGameMode(snapshot.mode.id);
+    state.mode = cloneModeState(snapshot.mode);
+  }
+
+  public getMode(): GameMode {
+    return this.mode;
+  }
+
+  public get tick(): number {
+    return this.state.tick;
+  }
+
+  // Takes the place of any earlier snake with the same id.
+  private placeSnake(snake: Snake): Snake {
+    const existing = this.state.snakes.get(snake.id);
+    if (existing) {
+      this.state.spatial.removeSnake(existing);
+    }
+
+    this.addSnake(snake);
+    this.inputs.delete(snake.id);
+    this.boosting.delete(snake.id);
+    return snake;
+  }
+
+  private addSnake(snake: Snake) {
+    this.mode.onSpawn(this.state, snake);
+    this.state.snakes.set(snake.id, snake);
+    this.state.spatial.syncSnake(snake);
+    this.state.events.push({ type: 'snakeSpawned', snake: tagSnake(snake) });
+  }
+
+  private addFood(food: Food) {
+    this.state.foods.push(food);
+    this.state.spatial.addFood(food);
+  }
+
+  private createSnake(id: string, username: string, x: number, y: number, color: string, skin: string, faceUrl?: string): Snake {
+    const segments: { x: number; y: number; radius: number }[] = [];
+    const initialSegments = 10;
+    const segmentRadius = 8;
+
+    for (let i = 0; i < initialSegments; i++) {
+      segments.push({ x: x - i * segmentRadius, y, radius: segmentRadius });
+    }
+
+    return {
+      id,
+      username,
+      segments,
+      color,
+      skin,
+      direction: 0,
+      targetDirection: 0,
+      speed: 3,
+      mass: initialSegments * 10,
+      isBoosting: false,
+      isDead: false,
+      score: 0,
+      kills: 0,
+      isAI: false,
+      faceUrl: faceUrl
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { GameEvent, GameState, SnakeInput } from '../types/game';
+import { TICK_RATE, createGameState } from './Simulation';
+import { createModeState } from './GameMode';
+import { LocalMatch, MatchConfig, PlayerProfile } from './LocalMatch';
+import { Replay } from './Replay';
+import { FrameDecoder, WorkerRequest, WorldFrame } from './workerProtocol';
+
+// Runs an offline match for the engine. `state` is what the renderer draws; it only changes in `flush`.
+export interface SimulationHost {
+  readonly state: GameState;
+  readonly spawnTick: number;
+  readonly hasUpdate: boolean;
+  reset(config: MatchConfig, player: PlayerProfile): void;
+  respawn(player: PlayerProfile): void;
+  advance(ticks: number, input: SnakeInput): void;
+  flush(): void;
+  takeReplay(): Replay | null;
+  takeEvents(): GameEvent[];
+  dispose(): void;
+}
+
+export class InThreadHost implements SimulationHost {
+  private match: LocalMatch = new LocalMatch();
+  private pendingTicks: number = 0;
+  private input: SnakeInput = { targetDirection: 0, boost: false };
+  private dirty: boolean = false;
+
+  public get state(): GameState {
+    return this.match.state;
+  }
+
+  public get spawnTick(): number {
+    return this.match.spawnTick;
+  }
+
+  public get hasUpdate(): boolean {
+    return this.dirty;
+  }
+
+  public reset(config: MatchConfig, player: PlayerProfile) {
+    this.match.reset(config, player);
+    this.pendingTicks = 0;
+    this.dirty = true;
+  }
+
+  public respawn(player: PlayerProfile) {
+    this.match.spawnPlayer(player);
+    this.dirty = true;
+  }
+
+  public advance(ticks: number, input: SnakeInput) {
+    this.pendingTicks += ticks;
+    this.input = input;
+    this.dirty = true;
+  }
+
+  public flush() {
+    this.match.advance(this.pendingTicks, this.input);
+    this.pendingTicks = 0;
+    this.dirty = false;
+  }
+
+  public takeReplay(): Replay | null {
+    return this.match.takeReplay();
+  }
+
+  public takeEvents(): GameEvent[] {
+    return this.match.takeEvents();
+  }
+
+  public dispose() {}
+}
+
+export class WorkerHost implements SimulationHost {
+  readonly state: GameState = createGameState();
+  public spawnTick: number = 0;
+  private worker: Worker;
+  private decoder: FrameDecoder = new FrameDecoder();
+  private frames: WorldFrame[] = [];
+  private replay: Replay | null = null;
+  private events: GameEvent[] = [];
+  // Bumped on every reset and respawn so frames computed before them are dropped.
+  private generation: number = 0;
+  private inFlight: number = 0;
+  // Ticks requested while the worker was busy, sent along with the next request.
+  private owedTicks: number = 0;
+
+  private readonly MAX_IN_FLIGHT = 3;
+  // A worker that can never keep up still falls behind, but by at most a second at a time.
+  private readonly MAX_OWED_TICKS = TICK_RATE;
+
+  constructor(onFailure: (error: ErrorEvent) => void) {
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorldFrame>) => {
+      this.inFlight = Math.max(0, this.inFlight - 1);
+      if (event.data.generation === this.generation) {
+        this.frames.push(event.data);
+      }
+    };
+    this.worker.onerror = onFailure;
+  }
+
+  public get hasUpdate(): boolean {
+    return this.frames.length > 0;
+  }
+
+  public reset(config: MatchConfig, player: PlayerProfile) {
+    this.generation++;
+    this.frames = [];
+    this.replay = null;
+    this.events = [];
+    this.owedTicks = 0;
+    this.decoder.reset(this.state);
+    this.state.tick = 0;
+    this.state.mode = createModeState(config.mode);
+    this.post({ type: 'reset', generation: this.generation, config, player });
+  }
+
+  public respawn(player: PlayerProfile) {
+    this.generation++;
+    this.frames = [];
+    this.decoder.resync();
+    this.state.playerSnake = null;
+    this.post({ type: 'respawn', generation: this.generation, player });
+  }
+
+  // While the worker is busy ticks are owed rather than posted, so a slow device catches up in bigger
+  // steps instead of running the match slower than real time.
+  public advance(ticks: number, input: SnakeInput) {
+    this.owedTicks = Math.min(this.owedTicks + ticks, this.MAX_OWED_TICKS);
+    if (this.inFlight >= this.MAX_IN_FLIGHT) return;
+
+    this.post({ type: 'advance', ticks: this.owedTicks, input });
+    this.owedTicks = 0;
+  }
+
+  public flush() {
+    this.frames.forEach(frame => {
+      this.decoder.apply(this.state, frame);
+      this.spawnTick = frame.spawnTick;
+      if (frame.replay) {
+        this.replay = frame.replay;
+      }
+      this.events.push(...frame.events);
+    });
+    this.frames = [];
+  }
+
+  public takeReplay(): Replay | null {
+    const replay = this.replay;
+    this.replay = null;
+    return replay;
+  }
+
+  public takeEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  public dispose() {
+    this.worker.terminate();
+  }
+
+  private post(request: WorkerRequest) {
+    this.inFlight++;
+    this.worker.postMessage(request);
+  }
+}
+
+// Without a usable worker the match runs in-thread from the start; a worker that fails later reports
+// through `onWorkerFailure`.
+export function createSimulationHost(onWorkerFailure: (error: ErrorEvent) => void): SimulationHost {
+  if (typeof Worker === 'undefined') return new InThreadHost();
+
+  try {
+    return new WorkerHost(onWorkerFailure);
+  } catch {
+    return new InThreadHost();
+  }
+}
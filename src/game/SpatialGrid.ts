@@ -0,0 +1,200 @@
+import { Snake, SnakeSegment, Food, GameMap } from '../types/game';
+
+export class SpatialGrid<T> {
+  private readonly cellSize: number;
+  private cells: Map<number, Set<T>> = new Map();
+  private locations: Map<T, number> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  private cellCoord(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(cx: number, cy: number): number {
+    return (cx + 32768) * 65536 + (cy + 32768);
+  }
+
+  insert(item: T, x: number, y: number) {
+    this.update(item, x, y);
+  }
+
+  update(item: T, x: number, y: number) {
+    const key = this.cellKey(this.cellCoord(x), this.cellCoord(y));
+    const current = this.locations.get(item);
+    if (current === key) return;
+
+    if (current !== undefined) {
+      this.removeFromCell(item, current);
+    }
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(item);
+    this.locations.set(item, key);
+  }
+
+  remove(item: T) {
+    const key = this.locations.get(item);
+    if (key === undefined) return;
+
+    this.removeFromCell(item, key);
+    this.locations.delete(item);
+  }
+
+  private removeFromCell(item: T, key: number) {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+
+    cell.delete(item);
+    if (cell.size === 0) {
+      this.cells.delete(key);
+    }
+  }
+
+  has(item: T): boolean {
+    return this.locations.has(item);
+  }
+
+  get size(): number {
+    return this.locations.size;
+  }
+
+  clear() {
+    this.cells.clear();
+    this.locations.clear();
+  }
+
+  queryRect(minX: number, minY: number, maxX: number, maxY: number, out: T[] = []): T[] {
+    const startX = this.cellCoord(minX);
+    const endX = this.cellCoord(maxX);
+    const startY = this.cellCoord(minY);
+    const endY = this.cellCoord(maxY);
+
+    for (let cx = startX; cx <= endX; cx++) {
+      for (let cy = startY; cy <= endY; cy++) {
+        const cell = this.cells.get(this.cellKey(cx, cy));
+        if (!cell) continue;
+        cell.forEach(item => out.push(item));
+      }
+    }
+
+    return out;
+  }
+
+  queryRadius(x: number, y: number, radius: number, out: T[] = []): T[] {
+    return this.queryRect(x - radius, y - radius, x + radius, y + radius, out);
+  }
+}
+
+export interface SegmentEntry {
+  snake: Snake;
+  segment: SnakeSegment;
+}
+
+export class SpatialIndex {
+  readonly foods: SpatialGrid<Food>;
+  readonly segments: SpatialGrid<SegmentEntry>;
+  private entries: Map<SnakeSegment, SegmentEntry> = new Map();
+  private indexedSegments: Map<string, SnakeSegment[]> = new Map();
+  private maxFoodRadius: number = 0;
+  private maxSegmentRadius: number = 0;
+
+  constructor(cellSize: number = 128) {
+    this.foods = new SpatialGrid(cellSize);
+    this.segments = new SpatialGrid(cellSize);
+  }
+
+  addFood(food: Food) {
+    this.foods.insert(food, food.x, food.y);
+    this.maxFoodRadius = Math.max(this.maxFoodRadius, food.radius);
+  }
+
+  removeFood(food: Food) {
+    this.foods.remove(food);
+  }
+
+  moveFood(food: Food) {
+    this.foods.update(food, food.x, food.y);
+  }
+
+  syncSnake(snake: Snake) {
+    const previous = this.indexedSegments.get(snake.id);
+    if (previous) {
+      const current = new Set(snake.segments);
+      previous.forEach(segment => {
+        if (!current.has(segment)) this.removeSegment(segment);
+      });
+    }
+
+    snake.segments.forEach(segment => {
+      let entry = this.entries.get(segment);
+      if (!entry || entry.snake !== snake) {
+        entry = { snake, segment };
+        this.entries.set(segment, entry);
+      }
+      this.segments.update(entry, segment.x, segment.y);
+      this.maxSegmentRadius = Math.max(this.maxSegmentRadius, segment.radius);
+    });
+
+    this.indexedSegments.set(snake.id, snake.segments.slice());
+  }
+
+  removeSnake(snake: Snake) {
+    const indexed = this.indexedSegments.get(snake.id);
+    if (!indexed) return;
+
+    indexed.forEach(segment => this.removeSegment(segment));
+    this.indexedSegments.delete(snake.id);
+  }
+
+  private removeSegment(segment: SnakeSegment) {
+    const entry = this.entries.get(segment);
+    if (!entry) return;
+
+    this.segments.remove(entry);
+    this.entries.delete(segment);
+  }
+
+  queryFood(x: number, y: number, radius: number, map?: GameMap): Food[] {
+    return queryArena(this.foods, x, y, radius + this.maxFoodRadius, map);
+  }
+
+  querySegments(x: number, y: number, radius: number, map?: GameMap): SegmentEntry[] {
+    return queryArena(this.segments, x, y, radius + this.maxSegmentRadius, map);
+  }
+
+  clear() {
+    this.foods.clear();
+    this.segments.clear();
+    this.entries.clear();
+    this.indexedSegments.clear();
+    this.maxFoodRadius = 0;
+    this.maxSegmentRadius = 0;
+  }
+}
+
+// On a torus arena a query circle that pokes past an edge also covers the opposite edge.
+function queryArena<T>(grid: SpatialGrid<T>, x: number, y: number, radius: number, map?: GameMap): T[] {
+  const out = grid.queryRadius(x, y, radius);
+  if (map?.shape !== 'torus') return out;
+
+  const shiftsX = [0];
+  if (x - radius < 0) shiftsX.push(map.width);
+  if (x + radius > map.width) shiftsX.push(-map.width);
+  const shiftsY = [0];
+  if (y - radius < 0) shiftsY.push(map.height);
+  if (y + radius > map.height) shiftsY.push(-map.height);
+
+  shiftsX.forEach(shiftX => shiftsY.forEach(shiftY => {
+    if (shiftX !== 0 || shiftY !== 0) {
+      grid.queryRadius(x + shiftX, y + shiftY, radius, out);
+    }
+  }));
+  return out;
+}
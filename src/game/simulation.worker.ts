@@ -0,0 +1,44 @@
+import { LocalMatch } from './LocalMatch';
+import { FrameEncoder, WorkerRequest, WorldFrame } from './workerProtocol';
+
+const match = new LocalMatch();
+const encoder = new FrameEncoder();
+let generation = 0;
+
+function postFrame(includeWorld: boolean) {
+  const state = match.state;
+  const frame: WorldFrame = {
+    type: 'frame',
+    generation,
+    spawnTick: match.spawnTick,
+    world: includeWorld ? { rules: state.rules, map: state.map, aiDifficulty: state.aiDifficulty } : null,
+    replay: match.takeReplay(),
+    events: match.takeEvents(),
+    ...encoder.encode(state)
+  };
+  self.postMessage(frame, { transfer: [frame.snakes, frame.foods] });
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'reset':
+      generation = request.generation;
+      encoder.reset();
+      match.reset(request.config, request.player);
+      postFrame(true);
+      break;
+    case 'respawn':
+      generation = request.generation;
+      // The host drops frames from the old generation, so the roster and palette they carried are sent again.
+      encoder.reset();
+      match.spawnPlayer(request.player);
+      postFrame(false);
+      break;
+    case 'advance':
+      match.advance(request.ticks, request.input);
+      postFrame(false);
+      break;
+  }
+};
@@ -0,0 +1,277 @@
+import { AIDifficulty, Food, FoodKind, GameEvent, GameMap, GameRules, GameState, ModeState, PowerUp, Snake, SnakeInput } from '../types/game';
+import { POWER_UP_TYPES } from './PowerUps';
+import { Replay } from './Replay';
+import { MatchConfig, PlayerProfile } from './LocalMatch';
+
+export type WorkerRequest =
+  | { type: 'reset'; generation: number; config: MatchConfig; player: PlayerProfile }
+  | { type: 'respawn'; generation: number; player: PlayerProfile }
+  | { type: 'advance'; ticks: number; input: SnakeInput };
+
+export interface SnakeMeta {
+  id: string;
+  username: string;
+  color: string;
+  skin: string;
+  faceUrl?: string;
+  isAI: boolean;
+  team?: string;
+  killedBy?: string;
+}
+
+// Everything that changes tick to tick travels in two transferable Float32 buffers; strings only
+// cross when the roster or the food palette changes.
+export interface WorldFrame {
+  type: 'frame';
+  generation: number;
+  tick: number;
+  spawnTick: number;
+  playerId: string | null;
+  world: { rules: GameRules; map: GameMap; aiDifficulty: AIDifficulty } | null;
+  roster: SnakeMeta[] | null;
+  snakes: ArrayBuffer;
+  foods: ArrayBuffer;
+  colors: string[];
+  powerUps: PowerUp[];
+  mode: ModeState;
+  replay: Replay | null;
+  events: GameEvent[];
+}
+
+const FOOD_KINDS: FoodKind[] = ['pellet', 'remains', 'boost'];
+
+// direction, speed, mass, score, kills, flags, one expiry tick per power-up type, segment count
+const SNAKE_HEADER = 6 + POWER_UP_TYPES.length + 1;
+const SEGMENT_STRIDE = 3;
+// x, y, radius, value, palette index, kind
+const FOOD_STRIDE = 6;
+
+const FLAG_BOOSTING = 1;
+const FLAG_DEAD = 2;
+
+function describeSnake(snake: Snake): SnakeMeta {
+  return {
+    id: snake.id,
+    username: snake.username,
+    color: snake.color,
+    skin: snake.skin,
+    faceUrl: snake.faceUrl,
+    isAI: !!snake.isAI,
+    team: snake.team,
+    killedBy: snake.killedBy
+  };
+}
+
+export class FrameEncoder {
+  private rosterKey: string = '';
+  private palette: Map<string, number> = new Map();
+
+  public reset() {
+    this.rosterKey = '';
+    this.palette.clear();
+  }
+
+  public encode(state: GameState): Omit<WorldFrame, 'type' | 'generation' | 'spawnTick' | 'world' | 'replay' | 'events'> {
+    const snakes = Array.from(state.snakes.values());
+    const roster = snakes.map(describeSnake);
+    const rosterKey = JSON.stringify(roster);
+    const rosterChanged = rosterKey !== this.rosterKey;
+    this.rosterKey = rosterKey;
+
+    let snakeLength = 0;
+    snakes.forEach(snake => {
+      snakeLength += SNAKE_HEADER + snake.segments.length * SEGMENT_STRIDE;
+    });
+
+    const snakeData = new Float32Array(snakeLength);
+    let offset = 0;
+    snakes.forEach(snake => {
+      snakeData[offset++] = snake.direction;
+      snakeData[offset++] = snake.speed;
+      snakeData[offset++] = snake.mass;
+      snakeData[offset++] = snake.score;
+      snakeData[offset++] = snake.kills;
+      snakeData[offset++] = (snake.isBoosting ? FLAG_BOOSTING : 0) | (snake.isDead ? FLAG_DEAD : 0);
+      POWER_UP_TYPES.forEach(type => {
+        snakeData[offset++] = snake.effects?.[type] ?? -1;
+      });
+      snakeData[offset++] = snake.segments.length;
+      snake.segments.forEach(segment => {
+        snakeData[offset++] = segment.x;
+        snakeData[offset++] = segment.y;
+        snakeData[offset++] = segment.radius;
+      });
+    });
+
+    const colors: string[] = [];
+    const foodData = new Float32Array(state.foods.length * FOOD_STRIDE);
+    state.foods.forEach((food, index) => {
+      let color = this.palette.get(food.color);
+      if (color === undefined) {
+        color = this.palette.size;
+        this.palette.set(food.color, color);
+        colors.push(food.color);
+      }
+
+      const base = index * FOOD_STRIDE;
+      foodData[base] = food.x;
+      foodData[base + 1] = food.y;
+      foodData[base + 2] = food.radius;
+      foodData[base + 3] = food.value;
+      foodData[base + 4] = color;
+      foodData[base + 5] = FOOD_KINDS.indexOf(food.kind);
+    });
+
+    return {
+      tick: state.tick,
+      playerId: state.playerSnake?.id ?? null,
+      roster: rosterChanged ? roster : null,
+      snakes: snakeData.buffer,
+      foods: foodData.buffer,
+      colors,
+      powerUps: state.powerUps,
+      mode: state.mode
+    };
+  }
+}
+
+// Applies frames to a main-thread copy of the world, reusing snake and food objects so the renderer
+// and the spatial index see stable identities.
+export class FrameDecoder {
+  private roster: SnakeMeta[] = [];
+  private palette: string[] = [];
+
+  public reset(state: GameState) {
+    this.roster = [];
+    this.palette = [];
+    state.snakes.clear();
+    state.foods = [];
+    state.powerUps = [];
+    state.spatial.clear();
+    state.playerSnake = null;
+  }
+
+  // Forgets the roster and palette but keeps the world on screen until the next frame resends them.
+  public resync() {
+    this.roster = [];
+    this.palette = [];
+  }
+
+  public apply(state: GameState, frame: WorldFrame) {
+    if (frame.world) {
+      this.reset(state);
+      state.rules = frame.world.rules;
+      state.map = frame.world.map;
+      state.mapSize = { width: frame.world.map.width, height: frame.world.map.height };
+      state.aiDifficulty = frame.world.aiDifficulty;
+    }
+
+    state.tick = frame.tick;
+    state.mode = frame.mode;
+    state.powerUps = frame.powerUps;
+    this.palette.push(...frame.colors);
+
+    if (frame.roster) {
+      this.applyRoster(state, frame.roster);
+    }
+    this.applySnakes(state, new Float32Array(frame.snakes));
+    this.applyFoods(state, new Float32Array(frame.foods));
+
+    state.playerSnake = frame.playerId ? state.snakes.get(frame.playerId) ?? null : null;
+  }
+
+  private applyRoster(state: GameState, roster: SnakeMeta[]) {
+    const ids = new Set(roster.map(meta => meta.id));
+    state.snakes.forEach((snake, id) => {
+      if (ids.has(id)) return;
+      state.snakes.delete(id);
+      state.spatial.removeSnake(snake);
+    });
+
+    roster.forEach(meta => {
+      const existing = state.snakes.get(meta.id);
+      if (existing) {
+        Object.assign(existing, meta);
+        return;
+      }
+
+      state.snakes.set(meta.id, {
+        ...meta,
+        segments: [],
+        direction: 0,
+        targetDirection: 0,
+        speed: 0,
+        mass: 0,
+        isBoosting: false,
+        isDead: false,
+        score: 0,
+        kills: 0
+      });
+    });
+    this.roster = roster;
+  }
+
+  private applySnakes(state: GameState, data: Float32Array) {
+    let offset = 0;
+    this.roster.forEach(meta => {
+      const snake = state.snakes.get(meta.id)!;
+      snake.direction = data[offset++];
+      snake.targetDirection = snake.direction;
+      snake.speed = data[offset++];
+      snake.mass = data[offset++];
+      snake.score = data[offset++];
+      snake.kills = data[offset++];
+      const flags = data[offset++];
+      snake.isBoosting = (flags & FLAG_BOOSTING) !== 0;
+      snake.isDead = (flags & FLAG_DEAD) !== 0;
+
+      snake.effects = undefined;
+      POWER_UP_TYPES.forEach(type => {
+        const expiresAt = data[offset++];
+        if (expiresAt >= 0) snake.effects = { ...snake.effects, [type]: expiresAt };
+      });
+
+      const count = data[offset++];
+      snake.segments.length = Math.min(snake.segments.length, count);
+      for (let i = 0; i < count; i++) {
+        const segment = snake.segments[i] ?? (snake.segments[i] = { x: 0, y: 0, radius: 0 });
+        segment.x = data[offset++];
+        segment.y = data[offset++];
+        segment.radius = data[offset++];
+      }
+
+      if (snake.isDead) {
+        state.spatial.removeSnake(snake);
+      } else {
+        state.spatial.syncSnake(snake);
+      }
+    });
+  }
+
+  private applyFoods(state: GameState, data: Float32Array) {
+    const count = data.length / FOOD_STRIDE;
+    const foods = state.foods;
+
+    for (let i = count; i < foods.length; i++) {
+      state.spatial.removeFood(foods[i]);
+    }
+    foods.length = Math.min(foods.length, count);
+
+    for (let i = 0; i < count; i++) {
+      const base = i * FOOD_STRIDE;
+      let food: Food | undefined = foods[i];
+      if (!food) {
+        food = { id: `food_${i}`, kind: 'pellet', x: 0, y: 0, radius: 0, color: '', value: 0 };
+        foods.push(food);
+      }
+
+      food.x = data[base];
+      food.y = data[base + 1];
+      food.radius = data[base + 2];
+      food.value = data[base + 3];
+      food.color = this.palette[data[base + 4]];
+      food.kind = FOOD_KINDS[data[base + 5]];
+      state.spatial.addFood(food);
+    }
+  }
+}
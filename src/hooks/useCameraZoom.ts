@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { GameEngine } from '../game/GameEngine';
+
+const WHEEL_STEP = 1.1;
+
+// Mouse wheel and two-finger pinch zoom. A single touch is left alone for the joystick.
+export function useCameraZoom(engine: GameEngine | null, enabled: boolean = true) {
+  useEffect(() => {
+    if (!engine || !enabled) return;
+
+    let pinchDistance: number | null = null;
+
+    const distanceOf = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const handleWheel = (e: WheelEvent) => {
+      engine.zoomCamera(e.deltaY < 0 ? WHEEL_STEP : 1 / WHEEL_STEP);
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinchDistance = distanceOf(e.touches);
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (pinchDistance === null || e.touches.length !== 2) return;
+
+      const distance = distanceOf(e.touches);
+      if (pinchDistance > 0) engine.zoomCamera(distance / pinchDistance);
+      pinchDistance = distance;
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchDistance = null;
+    };
+
+    window.addEventListener('wheel', handleWheel);
+    window.addEventListener('touchstart', handleTouchStart);
+    window.addEventListener('touchmove', handleTouchMove);
+    window.addEventListener('touchend', handleTouchEnd);
+
+    return () => {
+      window.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [engine, enabled]);
+}
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { GameEngine } from '../game/GameEngine';
+import { useCameraZoom } from './useCameraZoom';
+
+const PAN_KEYS: Record<string, [number, number]> = {
+  KeyW: [0, -1], ArrowUp: [0, -1],
+  KeyS: [0, 1], ArrowDown: [0, 1],
+  KeyA: [-1, 0], ArrowLeft: [-1, 0],
+  KeyD: [1, 0], ArrowRight: [1, 0]
+};
+
+export function useFreeCamera(engine: GameEngine, dragToPan: boolean = true) {
+  useCameraZoom(engine);
+
+  useEffect(() => {
+    let dragging = false;
+    let lastX = 0;
+    let lastY = 0;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!dragToPan || !(e.target instanceof HTMLCanvasElement)) return;
+      dragging = true;
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!dragging) return;
+      engine.panCamera(lastX - e.clientX, lastY - e.clientY);
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+
+    const handleMouseUp = () => {
+      dragging = false;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const pan = PAN_KEYS[e.code];
+      if (pan) {
+        engine.panCamera(pan[0] * 40, pan[1] * 40);
+      }
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [engine, dragToPan]);
+}
@@ -0,0 +1,66 @@
+export interface LinkConditions {
+  latency: number;
+  jitter: number;
+  packetLoss: number;
+}
+
+export const PERFECT_LINK: LinkConditions = { latency: 0, jitter: 0, packetLoss: 0 };
+
+// WebSockets run over TCP, so a "lost" packet is never dropped: it is retransmitted
+// after a timeout and everything sent after it waits behind it.
+export class LinkConditioner {
+  private conditions: LinkConditions;
+  private lastDelivery: number = 0;
+
+  private readonly RETRANSMIT_PENALTY = 200;
+
+  constructor(conditions: LinkConditions = PERFECT_LINK) {
+    this.conditions = conditions;
+  }
+
+  public setConditions(conditions: LinkConditions) {
+    this.conditions = conditions;
+  }
+
+  public getConditions(): LinkConditions {
+    return this.conditions;
+  }
+
+  public get isPerfect(): boolean {
+    const { latency, jitter, packetLoss } = this.conditions;
+    return latency <= 0 && jitter <= 0 && packetLoss <= 0;
+  }
+
+  public deliver(callback: () => void) {
+    if (this.isPerfect) {
+      callback();
+      return;
+    }
+
+    const { latency, jitter, packetLoss } = this.conditions;
+    const now = performance.now();
+    let delay = latency / 2 + Math.random() * jitter;
+
+    if (Math.random() < packetLoss) {
+      delay += latency + this.RETRANSMIT_PENALTY;
+    }
+
+    const deliverAt = Math.max(now + delay, this.lastDelivery);
+    this.lastDelivery = deliverAt;
+    setTimeout(callback, deliverAt - now);
+  }
+}
+
+export function parseLinkConditions(search: string): LinkConditions {
+  const params = new URLSearchParams(search);
+  const read = (name: string) => {
+    const value = Number(params.get(name));
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  };
+
+  return {
+    latency: read('lag'),
+    jitter: read('jitter'),
+    packetLoss: Math.min(1, read('loss'))
+  };
+}
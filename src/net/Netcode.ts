@@ -0,0 +1,231 @@
+import { GameEvent, GameMap, GameState, Snake, SnakeInput, SnakeSegment } from '../types/game';
+import { updateSnakePhysics } from '../game/GamePhysics';
+import { arenaDelta, lerpAngle } from '../game/GameUtils';
+import { terrainSpeedAt, wrapIntoArena } from '../game/GameMap';
+import { createGameState, TICK_RATE } from '../game/Simulation';
+import { SnakeSnapshot, SnapshotMessage, WelcomeMessage, applyFoodDelta, decodeSnake } from './protocol';
+
+interface BufferedSnapshot {
+  receivedAt: number;
+  tick: number;
+  snakes: Map<string, SnakeSnapshot>;
+}
+
+interface BufferedEvents {
+  receivedAt: number;
+  events: GameEvent[];
+}
+
+interface PendingInput {
+  seq: number;
+  input: SnakeInput;
+}
+
+export interface NetcodeStats {
+  bufferedSnapshots: number;
+  pendingInputs: number;
+  lastCorrection: number;
+}
+
+export class ClientNetcode {
+  readonly state: GameState = createGameState();
+  public localId: string | null = null;
+  public interpolationDelay: number;
+
+  private snapshots: BufferedSnapshot[] = [];
+  private pendingInputs: PendingInput[] = [];
+  private events: BufferedEvents[] = [];
+  private nextSeq: number = 1;
+  private lastCorrection: number = 0;
+
+  private readonly MAX_BUFFERED_SNAPSHOTS = 30;
+  private readonly MAX_PENDING_INPUTS = TICK_RATE * 2;
+
+  constructor(interpolationDelay: number = 100) {
+    this.interpolationDelay = interpolationDelay;
+  }
+
+  public handleWelcome(message: WelcomeMessage) {
+    this.localId = message.snakeId;
+    this.state.mapSize = message.mapSize;
+    this.state.rules = message.rules;
+    this.state.map = message.map;
+    this.state.tick = message.tick;
+    this.state.mode = message.mode;
+    applyFoodDelta(this.state, message.foods, []);
+  }
+
+  public handleSnapshot(message: SnapshotMessage, now: number) {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (latest && message.tick <= latest.tick) return;
+
+    const snakes = new Map<string, SnakeSnapshot>();
+    message.snakes.forEach(snake => snakes.set(snake.id, snake));
+
+    this.snapshots.push({ receivedAt: now, tick: message.tick, snakes });
+    if (this.snapshots.length > this.MAX_BUFFERED_SNAPSHOTS) {
+      this.snapshots.shift();
+    }
+    if (message.events.length > 0) {
+      this.events.push({ receivedAt: now, events: message.events });
+    }
+
+    this.state.snakes.forEach((snake, id) => {
+      if (snakes.has(id)) return;
+      this.state.snakes.delete(id);
+      this.state.spatial.removeSnake(snake);
+    });
+
+    snakes.forEach((snapshot, id) => {
+      if (id === this.localId) {
+        this.reconcile(snapshot, message.acks[id] ?? 0);
+        return;
+      }
+
+      const existing = this.state.snakes.get(id);
+      const segments = existing?.segments;
+      const snake = decodeSnake(snapshot, existing);
+      if (segments && segments.length > 0) {
+        snake.segments = segments;
+      }
+      this.state.snakes.set(id, snake);
+    });
+
+    applyFoodDelta(this.state, message.foodsAdded, message.foodsRemoved, message.foodsMoved);
+    this.state.powerUps = message.powerUps;
+    this.state.tick = message.tick;
+    this.state.mode = message.mode;
+  }
+
+  public predict(input: SnakeInput): number {
+    const seq = this.nextSeq++;
+    this.pendingInputs.push({ seq, input });
+    if (this.pendingInputs.length > this.MAX_PENDING_INPUTS) {
+      this.pendingInputs.shift();
+    }
+
+    const snake = this.getLocalSnake();
+    if (snake && !snake.isDead) {
+      this.applyInput(snake, input);
+      this.state.spatial.syncSnake(snake);
+    }
+
+    return seq;
+  }
+
+  public interpolate(now: number) {
+    const renderTime = now - this.interpolationDelay;
+    const { older, newer } = this.findBracket(renderTime);
+    if (!newer) return;
+
+    const span = older ? newer.receivedAt - older.receivedAt : 0;
+    const t = older && span > 0 ? Math.max(0, Math.min(1, (renderTime - older.receivedAt) / span)) : 1;
+
+    newer.snakes.forEach((to, id) => {
+      if (id === this.localId) return;
+
+      const snake = this.state.snakes.get(id);
+      if (!snake) return;
+
+      const from = older?.snakes.get(id);
+      snake.segments = interpolateSegments(from, to, t, this.state.map);
+      snake.direction = from ? lerpAngle(from.direction, to.direction, t) : to.direction;
+
+      if (snake.isDead) {
+        this.state.spatial.removeSnake(snake);
+      } else {
+        this.state.spatial.syncSnake(snake);
+      }
+    });
+  }
+
+  // Events are held back by the interpolation delay so they line up with the remote snakes on screen.
+  public takeEvents(now: number): GameEvent[] {
+    const renderTime = now - this.interpolationDelay;
+    const released: GameEvent[] = [];
+    while (this.events.length > 0 && this.events[0].receivedAt <= renderTime) {
+      released.push(...this.events.shift()!.events);
+    }
+    return released;
+  }
+
+  public getLocalSnake(): Snake | null {
+    return this.localId ? this.state.snakes.get(this.localId) ?? null : null;
+  }
+
+  public getStats(): NetcodeStats {
+    return {
+      bufferedSnapshots: this.snapshots.length,
+      pendingInputs: this.pendingInputs.length,
+      lastCorrection: this.lastCorrection
+    };
+  }
+
+  private reconcile(snapshot: SnakeSnapshot, ackSeq: number) {
+    const existing = this.state.snakes.get(snapshot.id);
+    const predictedHead = existing && !existing.isDead ? { ...existing.segments[0] } : null;
+
+    const snake = decodeSnake(snapshot, existing);
+    this.state.snakes.set(snake.id, snake);
+
+    this.pendingInputs = this.pendingInputs.filter(pending => pending.seq > ackSeq);
+
+    if (!snake.isDead) {
+      this.pendingInputs.forEach(pending => this.applyInput(snake, pending.input));
+      this.state.spatial.syncSnake(snake);
+    } else {
+      this.state.spatial.removeSnake(snake);
+    }
+
+    if (predictedHead && !snake.isDead) {
+      const head = snake.segments[0];
+      this.lastCorrection = Math.hypot(head.x - predictedHead.x, head.y - predictedHead.y);
+    }
+  }
+
+  private applyInput(snake: Snake, input: SnakeInput) {
+    snake.targetDirection = input.targetDirection;
+    snake.isBoosting = input.boost;
+    const head = snake.segments[0];
+    updateSnakePhysics(snake, 60 / TICK_RATE, this.state.rules, terrainSpeedAt(this.state.map, head.x, head.y), this.state.map);
+  }
+
+  private findBracket(renderTime: number): { older: BufferedSnapshot | null; newer: BufferedSnapshot | null } {
+    if (this.snapshots.length === 0) return { older: null, newer: null };
+
+    for (let i = this.snapshots.length - 1; i >= 0; i--) {
+      if (this.snapshots[i].receivedAt <= renderTime) {
+        const newer = this.snapshots[i + 1] ?? this.snapshots[i];
+        return { older: this.snapshots[i], newer };
+      }
+    }
+
+    return { older: null, newer: this.snapshots[0] };
+  }
+}
+
+function interpolateSegments(from: SnakeSnapshot | undefined, to: SnakeSnapshot, t: number, map: GameMap): SnakeSegment[] {
+  const segments: SnakeSegment[] = [];
+  const source = from?.segments;
+
+  for (let i = 0; i < to.segments.length; i += 3) {
+    const x = to.segments[i];
+    const y = to.segments[i + 1];
+    const radius = to.segments[i + 2];
+
+    if (source && i + 2 < source.length) {
+      const delta = arenaDelta(map, source[i], source[i + 1], x, y);
+      const segment = {
+        x: source[i] + delta.x * t,
+        y: source[i + 1] + delta.y * t,
+        radius: source[i + 2] + (radius - source[i + 2]) * t
+      };
+      wrapIntoArena(map, segment);
+      segments.push(segment);
+    } else {
+      segments.push({ x, y, radius });
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,86 @@
+import { ClientMessage, ServerMessage, SnapshotMessage, WelcomeMessage, parseMessage } from './protocol';
+import { LinkConditioner, LinkConditions, PERFECT_LINK } from './LinkConditioner';
+
+export interface NetworkClientHandlers {
+  onWelcome: (message: WelcomeMessage) => void;
+  onSnapshot: (message: SnapshotMessage) => void;
+  onDisconnect: () => void;
+}
+
+export class NetworkClient {
+  private socket: WebSocket | null = null;
+  private handlers: NetworkClientHandlers;
+  private outgoing: LinkConditioner;
+  private incoming: LinkConditioner;
+
+  constructor(handlers: NetworkClientHandlers, conditions: LinkConditions = PERFECT_LINK) {
+    this.handlers = handlers;
+    this.outgoing = new LinkConditioner(conditions);
+    this.incoming = new LinkConditioner(conditions);
+  }
+
+  public setLinkConditions(conditions: LinkConditions) {
+    this.outgoing.setConditions(conditions);
+    this.incoming.setConditions(conditions);
+  }
+
+  public connect(url: string, join: Extract<ClientMessage, { type: 'join' }>) {
+    this.close();
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send(join);
+    };
+
+    socket.onmessage = (event) => {
+      const message = parseMessage<ServerMessage>(event.data);
+      if (!message) return;
+
+      this.incoming.deliver(() => {
+        if (this.socket !== socket) return;
+
+        if (message.type === 'welcome') {
+          this.handlers.onWelcome(message);
+        } else if (message.type === 'snapshot') {
+          this.handlers.onSnapshot(message);
+        }
+      });
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handlers.onDisconnect();
+    };
+
+    socket.onerror = () => {
+      console.error(`Connection to game server ${url} failed`);
+    };
+  }
+
+  public send(message: ClientMessage) {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+    const payload = JSON.stringify(message);
+    this.outgoing.deliver(() => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    });
+  }
+
+  public close() {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  public get isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+}
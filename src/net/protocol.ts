@@ -0,0 +1,232 @@
+import { Snake, Food, FoodKind, GameEvent, GameMap, GameState, GameRules, ModeState, PowerUp, PowerUpType } from '../types/game';
+
+export interface SnakeSnapshot {
+  id: string;
+  username: string;
+  color: string;
+  skin: string;
+  faceUrl?: string;
+  isAI: boolean;
+  direction: number;
+  targetDirection: number;
+  speed: number;
+  mass: number;
+  score: number;
+  kills: number;
+  isBoosting: boolean;
+  isDead: boolean;
+  killedBy?: string;
+  team?: string;
+  effects?: Partial<Record<PowerUpType, number>>;
+  segments: number[];
+}
+
+export interface FoodSnapshot {
+  id: string;
+  kind: FoodKind;
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+  value: number;
+}
+
+// Food only moves when a magnet pulls it, so positions are sent for those pellets alone.
+export interface FoodMove {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export type ClientMessage =
+  | { type: 'join'; username: string; color: string; skin: string; faceUrl?: string }
+  | { type: 'input'; seq: number; targetDirection: number; boost: boolean }
+  | { type: 'respawn' };
+
+export type ServerMessage =
+  | {
+      type: 'welcome';
+      snakeId: string;
+      tick: number;
+      tickRate: number;
+      mapSize: { width: number; height: number };
+      foods: FoodSnapshot[];
+      mode: ModeState;
+      rules: GameRules;
+      map: GameMap;
+    }
+  | {
+      type: 'snapshot';
+      tick: number;
+      snakes: SnakeSnapshot[];
+      acks: Record<string, number>;
+      foodsAdded: FoodSnapshot[];
+      foodsRemoved: string[];
+      foodsMoved: FoodMove[];
+      powerUps: PowerUp[];
+      mode: ModeState;
+      // Everything that happened since the previous snapshot, including spawns between ticks.
+      events: GameEvent[];
+    };
+
+export type SnapshotMessage = Extract<ServerMessage, { type: 'snapshot' }>;
+export type WelcomeMessage = Extract<ServerMessage, { type: 'welcome' }>;
+
+function quantize(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function encodeSnake(snake: Snake): SnakeSnapshot {
+  const segments: number[] = [];
+  snake.segments.forEach(segment => {
+    segments.push(quantize(segment.x), quantize(segment.y), quantize(segment.radius));
+  });
+
+  return {
+    id: snake.id,
+    username: snake.username,
+    color: snake.color,
+    skin: snake.skin,
+    faceUrl: snake.faceUrl,
+    isAI: !!snake.isAI,
+    direction: snake.direction,
+    targetDirection: snake.targetDirection,
+    speed: snake.speed,
+    mass: snake.mass,
+    score: snake.score,
+    kills: snake.kills,
+    isBoosting: snake.isBoosting,
+    isDead: snake.isDead,
+    killedBy: snake.killedBy,
+    team: snake.team,
+    effects: snake.effects,
+    segments
+  };
+}
+
+export function decodeSnake(snapshot: SnakeSnapshot, target?: Snake): Snake {
+  const segments = [];
+  for (let i = 0; i < snapshot.segments.length; i += 3) {
+    segments.push({
+      x: snapshot.segments[i],
+      y: snapshot.segments[i + 1],
+      radius: snapshot.segments[i + 2]
+    });
+  }
+
+  const snake: Snake = target ?? ({} as Snake);
+  snake.id = snapshot.id;
+  snake.username = snapshot.username;
+  snake.color = snapshot.color;
+  snake.skin = snapshot.skin;
+  snake.faceUrl = snapshot.faceUrl;
+  snake.isAI = snapshot.isAI;
+  snake.direction = snapshot.direction;
+  snake.targetDirection = snapshot.targetDirection;
+  snake.speed = snapshot.speed;
+  snake.mass = snapshot.mass;
+  snake.score = snapshot.score;
+  snake.kills = snapshot.kills;
+  snake.isBoosting = snapshot.isBoosting;
+  snake.isDead = snapshot.isDead;
+  snake.killedBy = snapshot.killedBy;
+  snake.team = snapshot.team;
+  snake.effects = snapshot.effects;
+  snake.segments = segments;
+  return snake;
+}
+
+export function encodeFood(food: Food): FoodSnapshot {
+  return {
+    id: food.id,
+    kind: food.kind,
+    x: quantize(food.x),
+    y: quantize(food.y),
+    radius: quantize(food.radius),
+    color: food.color,
+    value: food.value
+  };
+}
+
+interface SentFood {
+  food: Food;
+  // Position as last sent, quantized like the snapshot.
+  x: number;
+  y: number;
+}
+
+export class FoodDiffer {
+  private known: Map<string, SentFood> = new Map();
+
+  diff(foods: Food[]): { added: FoodSnapshot[]; removed: string[]; moved: FoodMove[] } {
+    const current = new Map<string, SentFood>();
+    const added: FoodSnapshot[] = [];
+    const moved: FoodMove[] = [];
+
+    foods.forEach(food => {
+      const x = quantize(food.x);
+      const y = quantize(food.y);
+      const sent = this.known.get(food.id);
+      if (!sent) {
+        added.push(encodeFood(food));
+        current.set(food.id, { food, x, y });
+        return;
+      }
+
+      if (sent.x !== x || sent.y !== y) {
+        moved.push({ id: food.id, x, y });
+        sent.x = x;
+        sent.y = y;
+      }
+      current.set(food.id, sent);
+    });
+
+    const removed: string[] = [];
+    this.known.forEach((_, id) => {
+      if (!current.has(id)) removed.push(id);
+    });
+
+    this.known = current;
+    return { added, removed, moved };
+  }
+
+  getKnownFoods(): FoodSnapshot[] {
+    return Array.from(this.known.values()).map(({ food, x, y }) => ({ ...encodeFood(food), x, y }));
+  }
+}
+
+export function applyFoodDelta(state: GameState, added: FoodSnapshot[], removed: string[], moved: FoodMove[] = []) {
+  if (removed.length > 0) {
+    const removedIds = new Set(removed);
+    state.foods = state.foods.filter(food => {
+      if (!removedIds.has(food.id)) return true;
+      state.spatial.removeFood(food);
+      return false;
+    });
+  }
+
+  if (moved.length > 0) {
+    const moves = new Map(moved.map(move => [move.id, move]));
+    state.foods.forEach(food => {
+      const move = moves.get(food.id);
+      if (!move) return;
+      food.x = move.x;
+      food.y = move.y;
+      state.spatial.moveFood(food);
+    });
+  }
+
+  added.forEach(foodSnapshot => {
+    const food: Food = { ...foodSnapshot };
+    state.foods.push(food);
+    state.spatial.addFood(food);
+  });
+}
+
+export function parseMessage<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
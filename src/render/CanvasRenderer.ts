@@ -0,0 +1,516 @@
+import { Food, GameState, Snake, SnakeSegment, Vector2 } from '../types/game';
+import { POWER_UPS, hasEffect } from '../game/PowerUps';
+import { MIN_SPAWN_DISTANCE, arenaRadius } from '../game/GameMap';
+import { Renderer, RenderScene, RenderStats, ViewBounds } from './Renderer';
+import { drawSkinnedBody, toCss } from './Skins';
+import { Particle } from './Particles';
+
+export class CanvasRenderer implements Renderer {
+  readonly kind: Renderer['kind'] = 'canvas';
+  protected canvas: HTMLCanvasElement;
+  protected ctx: CanvasRenderingContext2D;
+  protected scene!: RenderScene;
+  public stats: RenderStats = {
+    food: 0, totalFood: 0, segments: 0, totalSegments: 0, snakes: 0, labels: 0, particles: 0, lowDetail: false
+  };
+
+  protected readonly VIEW_MARGIN = 50;
+  // Below this zoom every other body segment is skipped and outlines and name labels are dropped.
+  protected readonly LOW_DETAIL_ZOOM = 0.5;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d')!;
+  }
+
+  protected get state(): GameState {
+    return this.scene.state;
+  }
+
+  public render(scene: RenderScene) {
+    const view = this.beginFrame(scene);
+
+    this.drawGrid(view);
+    this.forEachArenaCopy(view, copyView => {
+      this.drawMapBorder(copyView);
+      this.drawMapZones(copyView);
+      this.drawFood(copyView);
+      this.drawObstacles(copyView);
+      this.drawPowerUps(copyView);
+      this.drawSnakes(copyView);
+      this.drawParticles(copyView);
+    });
+    this.endFrame(view);
+  }
+
+  // Clears the canvas and leaves the context in world space, saved once for `endFrame` to restore.
+  protected beginFrame(scene: RenderScene): ViewBounds {
+    this.scene = scene;
+    const { x: cameraX, y: cameraY, zoom } = scene.camera;
+    this.resetStats(zoom < this.LOW_DETAIL_ZOOM);
+
+    this.ctx.fillStyle = '#0a0a0f';
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    this.ctx.save();
+
+    this.ctx.translate(this.canvas.width / 2, this.canvas.height / 2);
+    this.ctx.scale(zoom, zoom);
+    this.ctx.translate(-cameraX, -cameraY);
+
+    return this.getViewBounds(cameraX, cameraY, zoom);
+  }
+
+  protected endFrame(view: ViewBounds) {
+    this.drawSafeZone(view);
+    if (this.scene.editing) {
+      this.drawSpawns();
+    }
+
+    this.ctx.restore();
+  }
+
+  protected forEachArenaCopy(view: ViewBounds, draw: (copyView: ViewBounds) => void) {
+    this.getArenaCopies(view).forEach(offset => {
+      const copyView = {
+        minX: view.minX - offset.x,
+        minY: view.minY - offset.y,
+        maxX: view.maxX - offset.x,
+        maxY: view.maxY - offset.y
+      };
+
+      this.ctx.save();
+      this.ctx.translate(offset.x, offset.y);
+      draw(copyView);
+      this.ctx.restore();
+    });
+  }
+
+  public dispose() {}
+
+  protected resetStats(lowDetail: boolean) {
+    const { state } = this.scene;
+    let totalSegments = 0;
+    state.snakes.forEach(snake => {
+      if (!snake.isDead) totalSegments += snake.segments.length;
+    });
+
+    this.stats = {
+      food: 0,
+      totalFood: state.foods.length,
+      segments: 0,
+      totalSegments,
+      snakes: 0,
+      labels: 0,
+      particles: 0,
+      lowDetail
+    };
+  }
+
+  protected getViewBounds(cameraX: number, cameraY: number, zoom: number): ViewBounds {
+    const halfWidth = this.canvas.width / 2 / zoom + this.VIEW_MARGIN;
+    const halfHeight = this.canvas.height / 2 / zoom + this.VIEW_MARGIN;
+    return {
+      minX: cameraX - halfWidth,
+      minY: cameraY - halfHeight,
+      maxX: cameraX + halfWidth,
+      maxY: cameraY + halfHeight
+    };
+  }
+
+  // A wrap-around arena is drawn once per tile the view overlaps, so whatever sits just past
+  // one edge also shows up beside the opposite edge.
+  protected getArenaCopies(view: ViewBounds): Vector2[] {
+    const { map } = this.state;
+    if (map.shape !== 'torus') return [{ x: 0, y: 0 }];
+
+    const copies: Vector2[] = [];
+    for (let tileX = Math.floor(view.minX / map.width); tileX <= Math.floor(view.maxX / map.width); tileX++) {
+      for (let tileY = Math.floor(view.minY / map.height); tileY <= Math.floor(view.maxY / map.height); tileY++) {
+        copies.push({ x: tileX * map.width, y: tileY * map.height });
+      }
+    }
+    return copies;
+  }
+
+  protected drawGrid(view: ViewBounds) {
+    const gridSize = 50;
+    const startX = Math.floor(view.minX / gridSize) * gridSize;
+    const endX = Math.ceil(view.maxX / gridSize) * gridSize;
+    const startY = Math.floor(view.minY / gridSize) * gridSize;
+    const endY = Math.ceil(view.maxY / gridSize) * gridSize;
+
+    this.ctx.beginPath();
+    for (let x = startX; x <= endX; x += gridSize) {
+      this.ctx.moveTo(x, startY);
+      this.ctx.lineTo(x, endY);
+    }
+    for (let y = startY; y <= endY; y += gridSize) {
+      this.ctx.moveTo(startX, y);
+      this.ctx.lineTo(endX, y);
+    }
+
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+    this.ctx.lineWidth = 1;
+    this.ctx.stroke();
+  }
+
+  protected drawMapBorder(view: ViewBounds) {
+    const { map } = this.state;
+
+    if (map.shape === 'torus') {
+      this.ctx.setLineDash([30, 30]);
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+      this.ctx.lineWidth = 4;
+      this.ctx.strokeRect(0, 0, map.width, map.height);
+      this.ctx.setLineDash([]);
+      return;
+    }
+
+    if (map.shape === 'circle') {
+      const radius = arenaRadius(map);
+      this.ctx.beginPath();
+      this.ctx.rect(view.minX, view.minY, view.maxX - view.minX, view.maxY - view.minY);
+      this.ctx.arc(map.width / 2, map.height / 2, radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      this.ctx.fill('evenodd');
+
+      this.ctx.beginPath();
+      this.ctx.arc(map.width / 2, map.height / 2, radius, 0, Math.PI * 2);
+      this.ctx.strokeStyle = '#ff0000';
+      this.ctx.lineWidth = 10;
+      this.ctx.stroke();
+      return;
+    }
+
+    this.ctx.strokeStyle = '#ff0000';
+    this.ctx.lineWidth = 10;
+    this.ctx.strokeRect(0, 0, map.width, map.height);
+  }
+
+  protected circleInView(x: number, y: number, radius: number, view: ViewBounds): boolean {
+    return x + radius >= view.minX && x - radius <= view.maxX && y + radius >= view.minY && y - radius <= view.maxY;
+  }
+
+  protected drawMapZones(view: ViewBounds) {
+    const { slowZones, foodZones } = this.state.map;
+
+    foodZones.forEach(zone => {
+      if (!this.circleInView(zone.x, zone.y, zone.radius, view)) return;
+      this.ctx.beginPath();
+      this.ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = 'rgba(74, 222, 128, 0.05)';
+      this.ctx.fill();
+
+      if (this.scene.editing) {
+        this.ctx.setLineDash([20, 15]);
+        this.ctx.strokeStyle = 'rgba(74, 222, 128, 0.6)';
+        this.ctx.lineWidth = 3;
+        this.ctx.stroke();
+        this.ctx.setLineDash([]);
+      }
+    });
+
+    slowZones.forEach(zone => {
+      if (!this.circleInView(zone.x, zone.y, zone.radius, view)) return;
+      this.ctx.beginPath();
+      this.ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = 'rgba(120, 83, 40, 0.25)';
+      this.ctx.fill();
+      this.ctx.strokeStyle = 'rgba(161, 112, 58, 0.5)';
+      this.ctx.lineWidth = 3;
+      this.ctx.stroke();
+    });
+  }
+
+  protected drawObstacles(view: ViewBounds) {
+    const { walls, rocks } = this.state.map;
+
+    this.ctx.fillStyle = '#3f3f46';
+    this.ctx.strokeStyle = '#71717a';
+    this.ctx.lineWidth = 4;
+
+    walls.forEach(wall => {
+      if (wall.x > view.maxX || wall.x + wall.width < view.minX || wall.y > view.maxY || wall.y + wall.height < view.minY) return;
+      this.ctx.fillRect(wall.x, wall.y, wall.width, wall.height);
+      this.ctx.strokeRect(wall.x, wall.y, wall.width, wall.height);
+    });
+
+    rocks.forEach(rock => {
+      if (!this.circleInView(rock.x, rock.y, rock.radius, view)) return;
+      this.ctx.beginPath();
+      this.ctx.arc(rock.x, rock.y, rock.radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.stroke();
+    });
+  }
+
+  protected drawSafeZone(view: ViewBounds) {
+    const zone = this.state.mode.zone;
+    if (!zone) return;
+
+    this.ctx.beginPath();
+    this.ctx.rect(view.minX, view.minY, view.maxX - view.minX, view.maxY - view.minY);
+    this.ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+    this.ctx.fillStyle = 'rgba(220, 38, 38, 0.15)';
+    this.ctx.fill('evenodd');
+
+    this.ctx.beginPath();
+    this.ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+    this.ctx.strokeStyle = 'rgba(248, 113, 113, 0.8)';
+    this.ctx.lineWidth = 6;
+    this.ctx.stroke();
+  }
+
+  protected drawSpawns() {
+    this.ctx.font = 'bold 24px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+
+    this.state.map.spawns.forEach((spawn, index) => {
+      this.ctx.beginPath();
+      this.ctx.arc(spawn.x, spawn.y, MIN_SPAWN_DISTANCE / 2, 0, Math.PI * 2);
+      this.ctx.fillStyle = 'rgba(56, 189, 248, 0.2)';
+      this.ctx.fill();
+      this.ctx.setLineDash([10, 10]);
+      this.ctx.strokeStyle = '#38bdf8';
+      this.ctx.lineWidth = 3;
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+
+      this.ctx.fillStyle = 'white';
+      this.ctx.fillText(String(index + 1), spawn.x, spawn.y);
+    });
+
+    this.ctx.textBaseline = 'alphabetic';
+  }
+
+  // The spatial grid returns whole cells, so each pellet is checked against the view as well.
+  protected getVisibleFood(view: ViewBounds): Food[] {
+    const visibleFood = this.state.spatial.foods
+      .queryRect(view.minX, view.minY, view.maxX, view.maxY)
+      .filter(food => this.circleInView(food.x, food.y, food.radius, view));
+    this.stats.food += visibleFood.length;
+    return visibleFood;
+  }
+
+  protected drawFood(view: ViewBounds) {
+    this.getVisibleFood(view).forEach(food => {
+      this.ctx.beginPath();
+      this.ctx.arc(food.x, food.y, food.radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = food.color;
+      this.ctx.fill();
+
+      if (food.kind === 'boost' || this.stats.lowDetail) return;
+
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      this.ctx.lineWidth = 1;
+      this.ctx.stroke();
+    });
+  }
+
+  protected drawPowerUps(view: ViewBounds) {
+    const pulse = 1 + Math.sin(performance.now() / 200) * 0.1;
+
+    this.state.powerUps.forEach(powerUp => {
+      if (powerUp.x < view.minX || powerUp.x > view.maxX || powerUp.y < view.minY || powerUp.y > view.maxY) return;
+
+      const definition = POWER_UPS[powerUp.type];
+      this.ctx.beginPath();
+      this.ctx.arc(powerUp.x, powerUp.y, powerUp.radius * pulse, 0, Math.PI * 2);
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      this.ctx.fill();
+      this.ctx.strokeStyle = definition.color;
+      this.ctx.lineWidth = 3;
+      this.ctx.stroke();
+
+      this.ctx.font = 'bold 14px Arial';
+      this.ctx.fillStyle = definition.color;
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillText(definition.symbol, powerUp.x, powerUp.y);
+      this.ctx.textBaseline = 'alphabetic';
+    });
+  }
+
+  protected drawEffects(snake: Snake, head: SnakeSegment) {
+    if (hasEffect(snake, 'magnet')) {
+      this.ctx.beginPath();
+      this.ctx.arc(head.x, head.y, head.radius * 4, 0, Math.PI * 2);
+      this.ctx.setLineDash([6, 8]);
+      this.ctx.strokeStyle = POWER_UPS.magnet.color;
+      this.ctx.lineWidth = 2;
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    }
+
+    if (hasEffect(snake, 'shield')) {
+      this.ctx.beginPath();
+      this.ctx.arc(head.x, head.y, head.radius + 6, 0, Math.PI * 2);
+      this.ctx.strokeStyle = POWER_UPS.shield.color;
+      this.ctx.lineWidth = 3;
+      this.ctx.stroke();
+    }
+
+    if (hasEffect(snake, 'speed')) {
+      this.ctx.beginPath();
+      this.ctx.arc(head.x, head.y, head.radius + 2, snake.direction + Math.PI * 0.6, snake.direction + Math.PI * 1.4);
+      this.ctx.strokeStyle = POWER_UPS.speed.color;
+      this.ctx.lineWidth = 4;
+      this.ctx.stroke();
+    }
+  }
+
+  protected getVisibleParticles(view: ViewBounds): Particle[] {
+    const visible: Particle[] = [];
+    this.scene.particles.forEach(particle => {
+      if (this.circleInView(particle.x, particle.y, particle.size, view)) visible.push(particle);
+    });
+    this.stats.particles += visible.length;
+    return visible;
+  }
+
+  // Absorption streaks are stroked along their velocity; everything else is a fading dot.
+  protected drawParticles(view: ViewBounds) {
+    const particles = this.getVisibleParticles(view);
+    if (particles.length === 0) return;
+
+    this.ctx.save();
+    this.ctx.lineCap = 'round';
+    particles.forEach(particle => {
+      const color = toCss(particle.color, particle.alpha * (particle.life / particle.maxLife));
+      if (particle.target) {
+        this.ctx.beginPath();
+        this.ctx.moveTo(particle.x - particle.vx * 0.03, particle.y - particle.vy * 0.03);
+        this.ctx.lineTo(particle.x, particle.y);
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = particle.size;
+        this.ctx.stroke();
+        return;
+      }
+
+      this.ctx.beginPath();
+      this.ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+      this.ctx.fillStyle = color;
+      this.ctx.fill();
+    });
+    this.ctx.restore();
+  }
+
+  protected getVisibleSnakes(view: ViewBounds): Snake[] {
+    const visibleSnakes = new Set<Snake>();
+    this.state.spatial.segments
+      .queryRect(view.minX, view.minY, view.maxX, view.maxY)
+      .forEach(entry => visibleSnakes.add(entry.snake));
+
+    const snakes = Array.from(visibleSnakes)
+      .filter(snake => !snake.isDead)
+      .sort((a, b) => a.mass - b.mass);
+    this.stats.snakes += snakes.length;
+    return snakes;
+  }
+
+  // Indices of the segments to draw, tail first so the head ends up on top.
+  protected getVisibleSegments(segments: SnakeSegment[], view: ViewBounds): number[] {
+    const indices: number[] = [];
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (this.stats.lowDetail && i % 2 === 1) continue;
+      const segment = segments[i];
+      if (this.circleInView(segment.x, segment.y, segment.radius, view)) {
+        indices.push(i);
+      }
+    }
+    this.stats.segments += indices.length;
+    return indices;
+  }
+
+  protected drawSnakes(view: ViewBounds) {
+    this.getVisibleSnakes(view).forEach(snake => {
+      const segments = this.scene.segmentsOf(snake);
+      this.ctx.save();
+      if (hasEffect(snake, 'ghost')) {
+        this.ctx.globalAlpha = 0.4;
+      }
+
+      this.drawBody(snake, segments, view);
+      this.drawHead(snake, segments[0], view);
+      this.ctx.restore();
+    });
+  }
+
+  protected drawBody(snake: Snake, segments: SnakeSegment[], view: ViewBounds) {
+    const indices = this.getVisibleSegments(segments, view);
+    drawSkinnedBody(this.ctx, snake.color, snake.skin, segments, indices, performance.now(), !this.stats.lowDetail);
+  }
+
+  // Face or eyes, name label and power-up effects, drawn over the head segment.
+  protected drawHead(snake: Snake, head: SnakeSegment, view: ViewBounds) {
+    this.drawLabel(snake, head, view);
+    if (!this.circleInView(head.x, head.y, head.radius * 4, view)) return;
+
+    const faceTexture = this.scene.faceTextures.get(snake.id);
+
+    if (faceTexture && snake.faceUrl) {
+      this.ctx.save();
+      this.ctx.translate(head.x, head.y);
+      this.ctx.rotate(snake.direction);
+
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, head.radius, 0, Math.PI * 2);
+      this.ctx.clip();
+
+      const size = head.radius * 2;
+      this.ctx.drawImage(faceTexture, -head.radius, -head.radius, size, size);
+
+      this.ctx.restore();
+
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.arc(head.x, head.y, head.radius, 0, Math.PI * 2);
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      this.ctx.lineWidth = 2;
+      this.ctx.stroke();
+      this.ctx.restore();
+    } else {
+      this.ctx.save();
+      this.ctx.translate(head.x, head.y);
+      this.ctx.rotate(snake.direction);
+
+      this.ctx.fillStyle = 'white';
+      this.ctx.beginPath();
+      this.ctx.arc(head.radius * 0.3, -head.radius * 0.3, head.radius * 0.25, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.beginPath();
+      this.ctx.arc(head.radius * 0.3, head.radius * 0.3, head.radius * 0.25, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.fillStyle = 'black';
+      this.ctx.beginPath();
+      this.ctx.arc(head.radius * 0.35, -head.radius * 0.3, head.radius * 0.15, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.beginPath();
+      this.ctx.arc(head.radius * 0.35, head.radius * 0.3, head.radius * 0.15, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.restore();
+    }
+
+    this.drawEffects(snake, head);
+  }
+
+  protected drawLabel(snake: Snake, head: SnakeSegment, view: ViewBounds) {
+    const labelY = head.y - head.radius - 10;
+    if (this.stats.lowDetail || !this.circleInView(head.x, labelY, snake.username.length * 5, view)) return;
+
+    this.ctx.save();
+    this.ctx.font = 'bold 14px Arial';
+    this.ctx.fillStyle = 'white';
+    this.ctx.strokeStyle = 'black';
+    this.ctx.lineWidth = 3;
+    this.ctx.textAlign = 'center';
+    this.ctx.strokeText(snake.username, head.x, labelY);
+    this.ctx.fillText(snake.username, head.x, labelY);
+    this.ctx.restore();
+    this.stats.labels++;
+  }
+}
@@ -0,0 +1,252 @@
+import { GameEvent, GameState, Snake } from '../types/game';
+import { arenaDelta } from '../game/GameUtils';
+import { Rgb, parseColor } from './Skins';
+
+export type ParticleQuality = 'off' | 'low' | 'medium' | 'high';
+
+export interface ParticleQualityPreset {
+  id: ParticleQuality;
+  name: string;
+  // Hard cap on live particles; emitters that would go over it are cut short.
+  maxParticles: number;
+  // Scales how many particles every emitter asks for.
+  density: number;
+}
+
+export const PARTICLE_QUALITIES: ParticleQualityPreset[] = [
+  { id: 'off', name: 'Off', maxParticles: 0, density: 0 },
+  { id: 'low', name: 'Low', maxParticles: 200, density: 0.35 },
+  { id: 'medium', name: 'Medium', maxParticles: 800, density: 0.7 },
+  { id: 'high', name: 'High', maxParticles: 2000, density: 1 }
+];
+
+export function getParticleQuality(id: string | null): ParticleQualityPreset {
+  return PARTICLE_QUALITIES.find(preset => preset.id === id) ?? PARTICLE_QUALITIES[2];
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // Seconds left and at spawn; particles fade out over their life.
+  life: number;
+  maxLife: number;
+  size: number;
+  // Change in size per second, so flashes swell while sparks shrink.
+  growth: number;
+  // Fraction of velocity lost per second.
+  drag: number;
+  color: Rgb;
+  alpha: number;
+  // Absorption streaks fly to this snake's head instead of drifting.
+  target: Snake | null;
+}
+
+const WHITE: Rgb = [1, 1, 1];
+const EXHAUST_RATE = 45;
+const STREAK_SPEED = 700;
+
+function random(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+// A fixed pool of particles fed by game events. Dead particles are swapped to the end of the pool and
+// reused, so a busy fight allocates nothing once the pool has grown to the quality cap.
+export class ParticleSystem {
+  private pool: Particle[] = [];
+  private live: number = 0;
+  private quality: ParticleQualityPreset = getParticleQuality(null);
+  // Boosting snakes and the exhaust particles they are owed from fractional frames.
+  private exhaust: Map<string, number> = new Map();
+
+  public get count(): number {
+    return this.live;
+  }
+
+  public get qualityId(): ParticleQuality {
+    return this.quality.id;
+  }
+
+  public setQuality(id: ParticleQuality) {
+    this.quality = getParticleQuality(id);
+    this.live = Math.min(this.live, this.quality.maxParticles);
+    if (this.quality.maxParticles === 0) {
+      this.exhaust.clear();
+    }
+  }
+
+  public clear() {
+    this.live = 0;
+    this.exhaust.clear();
+  }
+
+  public forEach(callback: (particle: Particle) => void) {
+    for (let i = 0; i < this.live; i++) {
+      callback(this.pool[i]);
+    }
+  }
+
+  public handleEvent(event: GameEvent, state: GameState) {
+    if (this.quality.maxParticles === 0) return;
+
+    switch (event.type) {
+      case 'foodEaten': {
+        const snake = state.snakes.get(event.snakeId);
+        if (snake) this.emitAbsorb(event.x, event.y, parseColor(event.color), snake);
+        break;
+      }
+      case 'snakeDied':
+        this.emitExplosion(event.x, event.y, parseColor(event.victim.color), event.mass);
+        if (event.killer) this.emitFlash(event.x, event.y, parseColor(event.killer.color));
+        break;
+      case 'boostStarted':
+        this.exhaust.set(event.snakeId, 0);
+        break;
+    }
+  }
+
+  public update(seconds: number, state: GameState) {
+    if (seconds <= 0) return;
+
+    this.emitExhaust(seconds, state);
+
+    let i = 0;
+    while (i < this.live) {
+      const particle = this.pool[i];
+      particle.life -= seconds;
+      if (particle.life <= 0 || (particle.target && !this.homeIn(particle, state))) {
+        this.release(i);
+        continue;
+      }
+
+      const damping = Math.max(0, 1 - particle.drag * seconds);
+      particle.vx *= damping;
+      particle.vy *= damping;
+      particle.x += particle.vx * seconds;
+      particle.y += particle.vy * seconds;
+      particle.size = Math.max(0.5, particle.size + particle.growth * seconds);
+      i++;
+    }
+  }
+
+  // Steers a streak at its snake's head; false once it arrives or the snake is gone.
+  private homeIn(particle: Particle, state: GameState): boolean {
+    const snake = particle.target!;
+    if (snake.isDead || snake.segments.length === 0) return false;
+
+    const head = snake.segments[0];
+    const toHead = arenaDelta(state.map, particle.x, particle.y, head.x, head.y);
+    const distance = Math.hypot(toHead.x, toHead.y);
+    if (distance < head.radius) return false;
+
+    const steer = Math.min(1, 1 - particle.life / particle.maxLife + 0.2);
+    particle.vx += (toHead.x / distance * STREAK_SPEED - particle.vx) * steer;
+    particle.vy += (toHead.y / distance * STREAK_SPEED - particle.vy) * steer;
+    return true;
+  }
+
+  private emitExplosion(x: number, y: number, color: Rgb, mass: number) {
+    const count = Math.round(Math.min(70, 14 + Math.sqrt(mass) * 2) * this.quality.density);
+    for (let i = 0; i < count; i++) {
+      const angle = random(0, Math.PI * 2);
+      const speed = random(60, 260);
+      const life = random(0.5, 1.1);
+      const particle = this.spawn(x, y, life, random(2, 5), color);
+      if (!particle) return;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.growth = -2;
+      particle.drag = 2.5;
+    }
+  }
+
+  private emitFlash(x: number, y: number, color: Rgb) {
+    const flash = this.spawn(x, y, 0.35, 12, color);
+    if (!flash) return;
+    flash.growth = 140;
+    flash.alpha = 0.7;
+
+    const sparks = Math.round(8 * this.quality.density);
+    for (let i = 0; i < sparks; i++) {
+      const angle = (i / sparks) * Math.PI * 2;
+      const spark = this.spawn(x, y, 0.3, 2.5, WHITE);
+      if (!spark) return;
+      spark.vx = Math.cos(angle) * 320;
+      spark.vy = Math.sin(angle) * 320;
+      spark.drag = 4;
+    }
+  }
+
+  private emitAbsorb(x: number, y: number, color: Rgb, snake: Snake) {
+    const count = Math.max(1, Math.round(3 * this.quality.density));
+    for (let i = 0; i < count; i++) {
+      const particle = this.spawn(x + random(-4, 4), y + random(-4, 4), 0.5, 2.5, color);
+      if (!particle) return;
+      particle.vx = random(-80, 80);
+      particle.vy = random(-80, 80);
+      particle.target = snake;
+    }
+  }
+
+  private emitExhaust(seconds: number, state: GameState) {
+    this.exhaust.forEach((owed, id) => {
+      const snake = state.snakes.get(id);
+      if (!snake || snake.isDead || !snake.isBoosting || snake.mass <= state.rules.minBoostMass) {
+        this.exhaust.delete(id);
+        return;
+      }
+
+      owed += EXHAUST_RATE * this.quality.density * seconds;
+      const tail = snake.segments[snake.segments.length - 1];
+      const color = parseColor(snake.color);
+      while (owed >= 1) {
+        owed--;
+        const angle = snake.direction + Math.PI + random(-0.5, 0.5);
+        const speed = random(30, 90);
+        const particle = this.spawn(tail.x, tail.y, random(0.3, 0.6), tail.radius * 0.5, color);
+        if (!particle) break;
+        particle.vx = Math.cos(angle) * speed;
+        particle.vy = Math.sin(angle) * speed;
+        particle.growth = -tail.radius;
+        particle.drag = 1.5;
+        particle.alpha = 0.6;
+      }
+      this.exhaust.set(id, owed);
+    });
+  }
+
+  private spawn(x: number, y: number, life: number, size: number, color: Rgb): Particle | null {
+    if (this.live >= this.quality.maxParticles) return null;
+
+    let particle = this.pool[this.live];
+    if (!particle) {
+      particle = { x: 0, y: 0, vx: 0, vy: 0, life: 0, maxLife: 0, size: 0, growth: 0, drag: 0, color, alpha: 1, target: null };
+      this.pool.push(particle);
+    }
+    this.live++;
+
+    particle.x = x;
+    particle.y = y;
+    particle.vx = 0;
+    particle.vy = 0;
+    particle.life = life;
+    particle.maxLife = life;
+    particle.size = size;
+    particle.growth = 0;
+    particle.drag = 0;
+    particle.color = color;
+    particle.alpha = 1;
+    particle.target = null;
+    return particle;
+  }
+
+  private release(index: number) {
+    const last = this.live - 1;
+    const particle = this.pool[index];
+    this.pool[index] = this.pool[last];
+    this.pool[last] = particle;
+    particle.target = null;
+    this.live = last;
+  }
+}
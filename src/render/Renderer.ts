@@ -0,0 +1,58 @@
+import { GameState, Snake, SnakeSegment } from '../types/game';
+import { CanvasRenderer } from './CanvasRenderer';
+import { WebGLRenderer } from './WebGLRenderer';
+import type { ParticleSystem } from './Particles';
+
+export type RendererKind = 'canvas' | 'webgl';
+
+export interface ViewBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Everything a renderer needs for one frame; the camera is already interpolated.
+export interface RenderScene {
+  state: GameState;
+  camera: { x: number; y: number; zoom: number };
+  editing: boolean;
+  faceTextures: ReadonlyMap<string, HTMLImageElement>;
+  particles: ParticleSystem;
+  segmentsOf(snake: Snake): SnakeSegment[];
+}
+
+// Counts from the last frame, to check how much culling and level of detail save.
+export interface RenderStats {
+  food: number;
+  totalFood: number;
+  segments: number;
+  totalSegments: number;
+  snakes: number;
+  labels: number;
+  particles: number;
+  lowDetail: boolean;
+}
+
+export interface Renderer {
+  readonly kind: RendererKind;
+  readonly stats: RenderStats;
+  render(scene: RenderScene): void;
+  dispose(): void;
+}
+
+export const RENDERERS: { id: RendererKind; name: string }[] = [
+  { id: 'canvas', name: 'Canvas 2D' },
+  { id: 'webgl', name: 'WebGL 2' }
+];
+
+export function createRenderer(canvas: HTMLCanvasElement, kind: RendererKind): Renderer {
+  if (kind === 'canvas') return new CanvasRenderer(canvas);
+
+  try {
+    return new WebGLRenderer(canvas);
+  } catch {
+    // No WebGL 2 here; Canvas 2D draws the same scene.
+    return new CanvasRenderer(canvas);
+  }
+}
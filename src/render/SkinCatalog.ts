@@ -0,0 +1,18 @@
+// How a skin from the `skins` table is drawn, keyed by its name since that is what snakes carry.
+export interface SkinStyle {
+  pattern: string;
+  glow: boolean;
+}
+
+// Mirrors the seed rows of the `skins` table so bots and remote snakes render before it loads. Kept free of
+// DOM types so the server can check skin names against it too.
+export const SEED_SKINS: ReadonlyMap<string, SkinStyle> = new Map([
+  ['default', { pattern: 'solid', glow: false }],
+  ['neon', { pattern: 'solid', glow: true }],
+  ['striped', { pattern: 'striped', glow: false }],
+  ['galaxy', { pattern: 'gradient', glow: true }],
+  ['dragon', { pattern: 'scales', glow: true }],
+  ['rainbow', { pattern: 'rainbow', glow: true }],
+  ['ghost', { pattern: 'transparent', glow: true }],
+  ['fire', { pattern: 'animated', glow: true }]
+]);
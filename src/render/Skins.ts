@@ -0,0 +1,183 @@
+import { SnakeSegment } from '../types/game';
+import { SEED_SKINS, SkinStyle } from './SkinCatalog';
+
+// Colour channels in 0..1.
+export type Rgb = [number, number, number];
+
+export interface SegmentPaint {
+  color: Rgb;
+  alpha: number;
+  // Alpha of a thin white ring along the segment's edge.
+  highlight: number;
+}
+
+export interface SkinPattern {
+  id: string;
+  paint(base: Rgb, index: number, count: number, time: number): SegmentPaint;
+}
+
+const colorCache: Map<string, Rgb> = new Map();
+
+export function parseColor(color: string): Rgb {
+  let rgb = colorCache.get(color);
+  if (rgb) return rgb;
+
+  const value = /^#[0-9a-f]{6}$/i.test(color) ? parseInt(color.slice(1), 16) : 0xffffff;
+  rgb = [(value >> 16) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+  colorCache.set(color, rgb);
+  return rgb;
+}
+
+export function toCss([r, g, b]: Rgb, alpha: number = 1): string {
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
+}
+
+function shade([r, g, b]: Rgb, factor: number): Rgb {
+  return [r * factor, g * factor, b * factor];
+}
+
+function mix(from: Rgb, to: Rgb, t: number): Rgb {
+  return [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t, from[2] + (to[2] - from[2]) * t];
+}
+
+function hsl(hue: number, saturation: number, lightness: number): Rgb {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function rotateHue([r, g, b]: Rgb, degrees: number): Rgb {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max === min) return [r, g, b];
+
+  const delta = max - min;
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  hue = (hue * 60 + degrees + 360) % 360;
+  return hsl(hue, saturation, lightness);
+}
+
+const solid: SkinPattern = {
+  id: 'solid',
+  paint: (base, index) => ({ color: index === 0 ? base : shade(base, 0.8), alpha: 1, highlight: 0 })
+};
+
+const PATTERNS: SkinPattern[] = [
+  solid,
+  {
+    id: 'striped',
+    paint: (base, index) => ({
+      color: index === 0 ? base : shade(base, Math.floor((index - 1) / 3) % 2 === 0 ? 0.85 : 0.4),
+      alpha: 1,
+      highlight: 0
+    })
+  },
+  {
+    id: 'gradient',
+    paint: (base, index, count) => ({
+      color: mix(base, rotateHue(base, 150), index / Math.max(1, count - 1)),
+      alpha: 1,
+      highlight: 0.15
+    })
+  },
+  {
+    id: 'scales',
+    paint: (base, index) => ({ color: shade(base, index % 2 === 0 ? 0.85 : 0.6), alpha: 1, highlight: 0.3 })
+  },
+  {
+    id: 'rainbow',
+    paint: (_base, index, _count, time) => ({ color: hsl((index * 15 + time / 10) % 360, 0.9, 0.55), alpha: 1, highlight: 0 })
+  },
+  {
+    id: 'transparent',
+    paint: (base, index, _count, time) => ({
+      color: shade(base, 0.9),
+      alpha: 0.45 + Math.sin(time / 400 + index * 0.4) * 0.1,
+      highlight: 0.35
+    })
+  },
+  {
+    id: 'animated',
+    paint: (_base, index, count, time) => {
+      const flicker = (Math.sin(time / 90 + index * 0.8) + 1) / 2;
+      const heat = 1 - index / Math.max(1, count) * 0.6;
+      return { color: mix([0.9, 0.1, 0], [1, 0.85, 0.1], flicker * heat), alpha: 1, highlight: 0.2 * flicker };
+    }
+  }
+];
+
+const SKINS: Map<string, SkinStyle> = new Map(SEED_SKINS);
+
+export function registerSkinPattern(pattern: SkinPattern) {
+  if (PATTERNS.some(existing => existing.id === pattern.id)) {
+    throw new Error(`A skin pattern with id "${pattern.id}" is already registered`);
+  }
+  PATTERNS.push(pattern);
+}
+
+export function getSkinPattern(id: string): SkinPattern {
+  return PATTERNS.find(pattern => pattern.id === id) ?? solid;
+}
+
+export function registerSkins(skins: { name: string; pattern: string; glow_effect: boolean }[]) {
+  skins.forEach(skin => SKINS.set(skin.name, { pattern: skin.pattern, glow: skin.glow_effect }));
+}
+
+export function getSkinStyle(name: string): SkinStyle {
+  return SKINS.get(name) ?? SKINS.get('default')!;
+}
+
+// Draws the given segments (tail first) with the skin's pattern. Outlines, highlights and glow
+// are left out when `detailed` is false.
+export function drawSkinnedBody(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  skin: string,
+  segments: SnakeSegment[],
+  indices: number[],
+  time: number,
+  detailed: boolean
+) {
+  const style = getSkinStyle(skin);
+  const pattern = getSkinPattern(style.pattern);
+  const base = parseColor(color);
+  const paints = indices.map(i => pattern.paint(base, i, segments.length, time));
+
+  if (style.glow && detailed) {
+    indices.forEach((i, n) => {
+      if (i % 2 === 1) return;
+      const segment = segments[i];
+      ctx.beginPath();
+      ctx.arc(segment.x, segment.y, segment.radius * 1.6, 0, Math.PI * 2);
+      ctx.fillStyle = toCss(paints[n].color, 0.12 * paints[n].alpha);
+      ctx.fill();
+    });
+  }
+
+  indices.forEach((i, n) => {
+    const segment = segments[i];
+    const paint = paints[n];
+
+    ctx.beginPath();
+    ctx.arc(segment.x, segment.y, segment.radius, 0, Math.PI * 2);
+    ctx.fillStyle = toCss(paint.color, paint.alpha);
+    ctx.fill();
+
+    if (!detailed) return;
+
+    ctx.strokeStyle = `rgba(0, 0, 0, ${0.3 * paint.alpha})`;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    if (paint.highlight > 0) {
+      ctx.strokeStyle = `rgba(255, 255, 255, ${paint.highlight})`;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+  });
+}
@@ -0,0 +1,491 @@
+import { Snake, SnakeSegment } from '../types/game';
+import { hasEffect } from '../game/PowerUps';
+import { CanvasRenderer } from './CanvasRenderer';
+import { Renderer, RenderScene, ViewBounds } from './Renderer';
+import { getSkinPattern, getSkinStyle, parseColor } from './Skins';
+
+const VERTEX_SHADER = `#version 300 es
+uniform vec2 u_resolution;
+uniform mat3 u_transform;
+uniform float u_pixel;
+
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec3 a_circle;
+layout(location = 2) in vec4 a_fill;
+layout(location = 3) in vec4 a_stroke;
+layout(location = 4) in vec2 a_line;
+
+out vec2 v_local;
+out float v_radius;
+out vec4 v_fill;
+out vec4 v_stroke;
+out vec2 v_line;
+
+void main() {
+  float extent = a_circle.z + a_line.x * 0.5 + u_pixel;
+  vec2 screen = (u_transform * vec3(a_circle.xy + a_corner * extent, 1.0)).xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+
+  v_local = a_corner * extent;
+  v_radius = a_circle.z;
+  v_fill = a_fill;
+  v_stroke = a_stroke;
+  v_line = a_line;
+}
+`;
+
+// Fills the circle and strokes its edge the way Canvas 2D does, with a one pixel soft edge for antialiasing.
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform float u_pixel;
+
+in vec2 v_local;
+in float v_radius;
+in vec4 v_fill;
+in vec4 v_stroke;
+in vec2 v_line;
+
+out vec4 outColor;
+
+vec4 premultiply(vec4 color, float coverage) {
+  return vec4(color.rgb * color.a, color.a) * coverage;
+}
+
+vec4 over(vec4 top, vec4 bottom) {
+  return top + bottom * (1.0 - top.a);
+}
+
+float band(float dist, float halfWidth) {
+  return clamp((halfWidth - abs(dist - v_radius)) / u_pixel + 0.5, 0.0, 1.0);
+}
+
+void main() {
+  float dist = length(v_local);
+  vec4 color = premultiply(v_fill, clamp((v_radius - dist) / u_pixel + 0.5, 0.0, 1.0));
+  if (v_line.x > 0.0) {
+    color = over(premultiply(v_stroke, band(dist, v_line.x * 0.5)), color);
+  }
+  if (v_line.y > 0.0) {
+    color = over(premultiply(vec4(1.0, 1.0, 1.0, v_line.y), band(dist, 0.5)), color);
+  }
+  if (color.a <= 0.0) discard;
+  outColor = color;
+}
+`;
+
+// A face texture clipped to the head circle and turned with the snake, like the 2D renderer's clipped drawImage.
+const FACE_VERTEX_SHADER = `#version 300 es
+uniform vec2 u_resolution;
+uniform mat3 u_transform;
+uniform vec3 u_circle;
+
+layout(location = 0) in vec2 a_corner;
+
+out vec2 v_corner;
+
+void main() {
+  vec2 screen = (u_transform * vec3(u_circle.xy + a_corner * u_circle.z, 1.0)).xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_corner = a_corner;
+}
+`;
+
+const FACE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform sampler2D u_face;
+uniform vec3 u_circle;
+uniform float u_angle;
+uniform float u_alpha;
+uniform float u_pixel;
+
+in vec2 v_corner;
+
+out vec4 outColor;
+
+void main() {
+  float coverage = clamp((1.0 - length(v_corner)) * u_circle.z / u_pixel + 0.5, 0.0, 1.0);
+  float c = cos(u_angle);
+  float s = sin(u_angle);
+  vec2 uv = vec2(c * v_corner.x + s * v_corner.y, c * v_corner.y - s * v_corner.x) * 0.5 + 0.5;
+  outColor = texture(u_face, uv) * coverage * u_alpha;
+  if (outColor.a <= 0.0) discard;
+}
+`;
+
+// x, y, radius, fill rgba, stroke rgba, stroke width, inner ring alpha
+const INSTANCE_FLOATS = 13;
+
+// Name labels and power-up rings are drawn with Canvas 2D once the circle layer is in place.
+interface HeadOverlay {
+  snake: Snake;
+  head: SnakeSegment;
+  view: ViewBounds;
+  transform: DOMMatrix;
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+}
+
+function linkProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+// Food, snakes and particles are drawn as instanced circles into one offscreen WebGL layer per frame,
+// each snake's head right after its own body, and the layer is composited into the 2D canvas once.
+// The grid, map features and power-ups go underneath it and labels and power-up rings on top.
+export class WebGLRenderer extends CanvasRenderer {
+  readonly kind: Renderer['kind'] = 'webgl';
+  private glCanvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private circleVao: WebGLVertexArrayObject;
+  private instanceBuffer: WebGLBuffer;
+  private uniforms: { resolution: WebGLUniformLocation; transform: WebGLUniformLocation; pixel: WebGLUniformLocation };
+  private faceProgram: WebGLProgram;
+  private faceVao: WebGLVertexArrayObject;
+  private faceUniforms: {
+    resolution: WebGLUniformLocation;
+    transform: WebGLUniformLocation;
+    circle: WebGLUniformLocation;
+    angle: WebGLUniformLocation;
+    alpha: WebGLUniformLocation;
+    pixel: WebGLUniformLocation;
+  };
+  private faceTextures: WeakMap<HTMLImageElement, WebGLTexture> = new WeakMap();
+  private instances: Float32Array = new Float32Array(INSTANCE_FLOATS * 1024);
+  private instanceCount: number = 0;
+  private layerDrawn: boolean = false;
+  private overlays: HeadOverlay[] = [];
+
+  constructor(canvas: HTMLCanvasElement) {
+    super(canvas);
+
+    this.glCanvas = document.createElement('canvas');
+    const gl = this.glCanvas.getContext('webgl2', { premultipliedAlpha: true, antialias: false });
+    if (!gl) {
+      throw new Error('WebGL 2 is not supported');
+    }
+    this.gl = gl;
+
+    const program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+    this.program = program;
+    this.uniforms = {
+      resolution: gl.getUniformLocation(program, 'u_resolution')!,
+      transform: gl.getUniformLocation(program, 'u_transform')!,
+      pixel: gl.getUniformLocation(program, 'u_pixel')!
+    };
+
+    const faceProgram = linkProgram(gl, FACE_VERTEX_SHADER, FACE_FRAGMENT_SHADER);
+    this.faceProgram = faceProgram;
+    this.faceUniforms = {
+      resolution: gl.getUniformLocation(faceProgram, 'u_resolution')!,
+      transform: gl.getUniformLocation(faceProgram, 'u_transform')!,
+      circle: gl.getUniformLocation(faceProgram, 'u_circle')!,
+      angle: gl.getUniformLocation(faceProgram, 'u_angle')!,
+      alpha: gl.getUniformLocation(faceProgram, 'u_alpha')!,
+      pixel: gl.getUniformLocation(faceProgram, 'u_pixel')!
+    };
+
+    const corners = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, corners);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+    this.faceVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.faceVao);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.circleVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.circleVao);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    const stride = INSTANCE_FLOATS * 4;
+    [[1, 3, 0], [2, 4, 3], [3, 4, 7], [4, 2, 11]].forEach(([location, size, offset]) => {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    });
+
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  public dispose() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  public render(scene: RenderScene) {
+    if (this.gl.isContextLost()) {
+      super.render(scene);
+      return;
+    }
+
+    const view = this.beginFrame(scene);
+    this.beginLayer();
+
+    this.drawGrid(view);
+    this.forEachArenaCopy(view, copyView => {
+      this.drawMapBorder(copyView);
+      this.drawMapZones(copyView);
+      this.drawObstacles(copyView);
+      this.drawPowerUps(copyView);
+      this.drawFood(copyView);
+      this.drawSnakes(copyView);
+      this.drawParticles(copyView);
+      this.flushInstances();
+    });
+
+    this.compositeLayer();
+    this.drawOverlays();
+    this.endFrame(view);
+  }
+
+  protected drawFood(view: ViewBounds) {
+    if (this.gl.isContextLost()) {
+      super.drawFood(view);
+      return;
+    }
+
+    this.getVisibleFood(view).forEach(food => {
+      const [r, g, b] = parseColor(food.color);
+      if (food.kind === 'boost' || this.stats.lowDetail) {
+        this.pushInstance(food.x, food.y, food.radius, r, g, b, 1, 0, 0);
+      } else {
+        this.pushInstance(food.x, food.y, food.radius, r, g, b, 1, 1, 0, 1, 1, 1, 0.3);
+      }
+    });
+  }
+
+  protected drawSnakes(view: ViewBounds) {
+    if (this.gl.isContextLost()) {
+      super.drawSnakes(view);
+      return;
+    }
+
+    const snakes = this.getVisibleSnakes(view);
+    const time = performance.now();
+
+    snakes.forEach(snake => {
+      const segments = this.scene.segmentsOf(snake);
+      const alpha = hasEffect(snake, 'ghost') ? 0.4 : 1;
+      const style = getSkinStyle(snake.skin);
+      const pattern = getSkinPattern(style.pattern);
+      const base = parseColor(snake.color);
+      const detailed = !this.stats.lowDetail;
+      const indices = this.getVisibleSegments(segments, view);
+      const paints = indices.map(i => pattern.paint(base, i, segments.length, time));
+
+      if (style.glow && detailed) {
+        indices.forEach((i, n) => {
+          if (i % 2 === 1) return;
+          const segment = segments[i];
+          const [r, g, b] = paints[n].color;
+          this.pushInstance(segment.x, segment.y, segment.radius * 1.6, r, g, b, 0.12 * paints[n].alpha * alpha, 0, 0);
+        });
+      }
+
+      indices.forEach((i, n) => {
+        const segment = segments[i];
+        const { color: [r, g, b], alpha: paintAlpha, highlight } = paints[n];
+        const fillAlpha = paintAlpha * alpha;
+        if (detailed) {
+          this.pushInstance(segment.x, segment.y, segment.radius, r, g, b, fillAlpha, 2, highlight * alpha, 0, 0, 0, 0.3 * fillAlpha);
+        } else {
+          this.pushInstance(segment.x, segment.y, segment.radius, r, g, b, fillAlpha, 0, 0);
+        }
+      });
+
+      const head = segments[0];
+      this.overlays.push({ snake, head, view, transform: this.ctx.getTransform() });
+      if (this.circleInView(head.x, head.y, head.radius * 4, view)) {
+        this.queueHead(snake, head, alpha);
+      }
+    });
+  }
+
+  // Eyes, or the snake's face, in the same layer as its body so the next snake can cover both.
+  private queueHead(snake: Snake, head: SnakeSegment, alpha: number) {
+    const face = this.scene.faceTextures.get(snake.id);
+    const texture = face && snake.faceUrl ? this.getFaceTexture(face) : null;
+    if (texture) {
+      this.flushInstances();
+      this.drawFace(texture, head, snake.direction, alpha);
+      this.pushInstance(head.x, head.y, head.radius, 0, 0, 0, 0, 2, 0, 1, 1, 1, 0.3 * alpha);
+      return;
+    }
+
+    const cos = Math.cos(snake.direction);
+    const sin = Math.sin(snake.direction);
+    const radius = head.radius;
+    [-1, 1].forEach(side => {
+      const eye = (forward: number, across: number, size: number, shade: number) => this.pushInstance(
+        head.x + (forward * cos - across * sin) * radius,
+        head.y + (forward * sin + across * cos) * radius,
+        size * radius, shade, shade, shade, alpha, 0, 0
+      );
+      eye(0.3, side * 0.3, 0.25, 1);
+      eye(0.35, side * 0.3, 0.15, 0);
+    });
+  }
+
+  private getFaceTexture(image: HTMLImageElement): WebGLTexture {
+    let texture = this.faceTextures.get(image);
+    if (texture) return texture;
+
+    const { gl } = this;
+    texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.faceTextures.set(image, texture);
+    return texture;
+  }
+
+  private drawFace(texture: WebGLTexture, head: SnakeSegment, direction: number, alpha: number) {
+    const { gl, glCanvas, faceUniforms } = this;
+    const { a, b, c, d, e, f } = this.ctx.getTransform();
+    gl.useProgram(this.faceProgram);
+    gl.bindVertexArray(this.faceVao);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform2f(faceUniforms.resolution, glCanvas.width, glCanvas.height);
+    gl.uniformMatrix3fv(faceUniforms.transform, false, [a, b, 0, c, d, 0, e, f, 1]);
+    gl.uniform3f(faceUniforms.circle, head.x, head.y, head.radius);
+    gl.uniform1f(faceUniforms.angle, direction);
+    gl.uniform1f(faceUniforms.alpha, alpha);
+    gl.uniform1f(faceUniforms.pixel, 1 / Math.hypot(a, b));
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    this.layerDrawn = true;
+  }
+
+  private drawOverlays() {
+    this.overlays.forEach(({ snake, head, view, transform }) => {
+      this.ctx.save();
+      this.ctx.setTransform(transform);
+      if (hasEffect(snake, 'ghost')) {
+        this.ctx.globalAlpha = 0.4;
+      }
+      this.drawLabel(snake, head, view);
+      if (this.circleInView(head.x, head.y, head.radius * 4, view)) {
+        this.drawEffects(snake, head);
+      }
+      this.ctx.restore();
+    });
+    this.overlays = [];
+  }
+
+  // Streaks become a short trail of shrinking dots behind the particle.
+  protected drawParticles(view: ViewBounds) {
+    if (this.gl.isContextLost()) {
+      super.drawParticles(view);
+      return;
+    }
+
+    this.getVisibleParticles(view).forEach(particle => {
+      const [r, g, b] = particle.color;
+      const alpha = particle.alpha * (particle.life / particle.maxLife);
+      this.pushInstance(particle.x, particle.y, particle.size, r, g, b, alpha, 0, 0);
+      if (!particle.target) return;
+
+      for (let i = 1; i <= 2; i++) {
+        const back = i * 0.012;
+        const trail = particle.size * (1 - i * 0.3);
+        this.pushInstance(particle.x - particle.vx * back, particle.y - particle.vy * back, trail, r, g, b, alpha * 0.6, 0, 0);
+      }
+    });
+  }
+
+  private pushInstance(
+    x: number, y: number, radius: number,
+    r: number, g: number, b: number, a: number,
+    strokeWidth: number, ring: number,
+    strokeR = 0, strokeG = 0, strokeB = 0, strokeA = 0
+  ) {
+    if ((this.instanceCount + 1) * INSTANCE_FLOATS > this.instances.length) {
+      const grown = new Float32Array(this.instances.length * 2);
+      grown.set(this.instances);
+      this.instances = grown;
+    }
+
+    const data = this.instances;
+    let offset = this.instanceCount * INSTANCE_FLOATS;
+    data[offset++] = x;
+    data[offset++] = y;
+    data[offset++] = radius;
+    data[offset++] = r;
+    data[offset++] = g;
+    data[offset++] = b;
+    data[offset++] = a;
+    data[offset++] = strokeR;
+    data[offset++] = strokeG;
+    data[offset++] = strokeB;
+    data[offset++] = strokeA;
+    data[offset++] = strokeWidth;
+    data[offset] = ring;
+    this.instanceCount++;
+  }
+
+  private beginLayer() {
+    const { gl, glCanvas, canvas } = this;
+    if (glCanvas.width !== canvas.width || glCanvas.height !== canvas.height) {
+      glCanvas.width = canvas.width;
+      glCanvas.height = canvas.height;
+    }
+
+    gl.viewport(0, 0, glCanvas.width, glCanvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    this.layerDrawn = false;
+  }
+
+  private compositeLayer() {
+    if (!this.layerDrawn) return;
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.drawImage(this.glCanvas, 0, 0);
+    this.ctx.restore();
+  }
+
+  // Draws the queued circles into the layer with the 2D context's current world transform.
+  private flushInstances() {
+    if (this.instanceCount === 0) return;
+
+    const { gl, glCanvas } = this;
+    const { a, b, c, d, e, f } = this.ctx.getTransform();
+    gl.useProgram(this.program);
+    gl.bindVertexArray(this.circleVao);
+    gl.uniform2f(this.uniforms.resolution, glCanvas.width, glCanvas.height);
+    gl.uniformMatrix3fv(this.uniforms.transform, false, [a, b, 0, c, d, 0, e, f, 1]);
+    gl.uniform1f(this.uniforms.pixel, 1 / Math.hypot(a, b));
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.instances.subarray(0, this.instanceCount * INSTANCE_FLOATS), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.instanceCount);
+    this.instanceCount = 0;
+    this.layerDrawn = true;
+  }
+}
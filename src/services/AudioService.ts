@@ -1,7 +1,12 @@
+import { GameEventBus } from '../game/EngineEvents';
+
 class AudioService {
   private audioContext: AudioContext | null = null;
   private masterVolume: number = 0.3;
   private isMuted: boolean = false;
+  private lastEatAt: number = 0;
+  // Pellets are often swallowed several per tick; closer bites than this share one sound.
+  private readonly EAT_SOUND_GAP = 60;
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -83,6 +88,28 @@ class AudioService {
     oscillator.stop(this.audioContext.currentTime + 0.3);
   }
 
+  // Plays the player's sounds off the engine's events; returns a function that stops listening.
+  listen(events: GameEventBus): () => void {
+    const unsubscribers = [
+      events.on('foodEaten', ({ isPlayer }) => {
+        if (!isPlayer) return;
+        const now = performance.now();
+        if (now - this.lastEatAt < this.EAT_SOUND_GAP) return;
+        this.lastEatAt = now;
+        this.playEatSound();
+      }),
+      events.on('snakeKilled', ({ isPlayerKiller }) => {
+        if (isPlayerKiller) this.playKillSound();
+      }),
+      events.on('playerDied', () => this.playDeathSound()),
+      events.on('boostStarted', ({ isPlayer }) => {
+        if (isPlayer) this.playBoostSound();
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
   setVolume(volume: number) {
     this.masterVolume = Math.max(0, Math.min(1, volume));
   }
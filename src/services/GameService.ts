@@ -1,11 +1,13 @@
 import { supabase } from '../lib/supabase';
 import { PlayerStats } from '../types/game';
+import { Skin, grantSkinUnlocks } from './SkinService';
 
 export async function savePlayerProgress(
   username: string,
   stats: PlayerStats,
   xpGained: number
-) {
+): Promise<Skin[]> {
+  let unlocked: Skin[] = [];
   const { data: existingPlayer } = await supabase
     .from('players')
     .select('*')
@@ -28,10 +30,12 @@ export async function savePlayerProgress(
         last_login: new Date().toISOString()
       })
       .eq('id', existingPlayer.id);
+
+    unlocked = await grantSkinUnlocks(existingPlayer.id, newLevel, newXP);
   } else {
     const newLevel = Math.floor(xpGained / 1000) + 1;
 
-    await supabase
+    const { data: newPlayer } = await supabase
       .from('players')
       .insert({
         username,
@@ -41,7 +45,13 @@ export async function savePlayerProgress(
         total_kills: stats.kills,
         total_deaths: 1,
         total_mass_eaten: stats.mass
-      });
+      })
+      .select('id')
+      .single();
+
+    if (newPlayer) {
+      unlocked = await grantSkinUnlocks(newPlayer.id, newLevel, xpGained);
+    }
   }
 
   await supabase
@@ -53,6 +63,8 @@ export async function savePlayerProgress(
       kills: stats.kills,
       time_alive: stats.timeAlive
     });
+
+  return unlocked;
 }
 
 export async function getPlayerData(username: string) {
@@ -0,0 +1,20 @@
+import { GameMap } from '../types/game';
+import { parseMap, serializeMap } from '../game/GameMap';
+
+export function downloadMap(map: GameMap) {
+  const blob = new Blob([serializeMap(map)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const safeName = map.id.replace(/[^a-z0-9_-]/gi, '_') || 'map';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `slither-${safeName}.map.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+export async function readMapFile(file: File): Promise<GameMap> {
+  const text = await file.text();
+  return parseMap(text);
+}
@@ -0,0 +1,20 @@
+import { Replay, parseReplay, serializeReplay } from '../game/Replay';
+
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = replay.recordedAt.replace(/[:.]/g, '-');
+  const safeName = replay.config.username.replace(/[^a-z0-9_-]/gi, '_') || 'snake';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `slither-${safeName}-${stamp}.replay.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+export async function readReplayFile(file: File): Promise<Replay> {
+  const text = await file.text();
+  return parseReplay(text);
+}
@@ -0,0 +1,7 @@
+import { GameRules } from '../types/game';
+import { parseRules } from '../game/GameRules';
+
+export async function readRulesFile(file: File): Promise<GameRules> {
+  const text = await file.text();
+  return parseRules(text);
+}
@@ -0,0 +1,83 @@
+import { supabase } from '../lib/supabase';
+
+export interface Skin {
+  id: string;
+  name: string;
+  unlock_level: number;
+  unlock_xp: number;
+  is_premium: boolean;
+  pattern: string;
+  glow_effect: boolean;
+}
+
+export async function getSkins(): Promise<Skin[]> {
+  const { data } = await supabase
+    .from('skins')
+    .select('*')
+    .order('unlock_level');
+
+  return data || [];
+}
+
+// Skins without a requirement, like the default skin, never need a player_skins row.
+export function isFreeSkin(skin: Skin): boolean {
+  return !skin.is_premium && skin.unlock_level <= 1 && skin.unlock_xp <= 0;
+}
+
+export function isSkinUnlocked(skin: Skin, unlockedIds: ReadonlySet<string>): boolean {
+  return isFreeSkin(skin) || unlockedIds.has(skin.id);
+}
+
+export function describeRequirement(skin: Skin): string {
+  return skin.is_premium ? 'Premium' : `Level ${skin.unlock_level}`;
+}
+
+// Also grants anything the stored level and XP already qualify for, so players who crossed a threshold
+// before unlocks were recorded don't have to die again to get it.
+export async function getUnlockedSkinIds(username: string): Promise<Set<string>> {
+  const { data: player } = await supabase
+    .from('players')
+    .select('id, level, total_xp')
+    .eq('username', username)
+    .maybeSingle();
+
+  if (!player) return new Set();
+
+  await grantSkinUnlocks(player.id, player.level, player.total_xp);
+
+  const { data } = await supabase
+    .from('player_skins')
+    .select('skin_id')
+    .eq('player_id', player.id);
+
+  return new Set((data || []).map(row => row.skin_id));
+}
+
+// Records every skin the player now qualifies for and returns the ones that were not unlocked before.
+export async function grantSkinUnlocks(playerId: string, level: number, xp: number): Promise<Skin[]> {
+  const [skins, { data: owned }] = await Promise.all([
+    getSkins(),
+    supabase.from('player_skins').select('skin_id').eq('player_id', playerId)
+  ]);
+
+  const ownedIds = new Set((owned || []).map(row => row.skin_id));
+  const unlocked = skins.filter(skin =>
+    !skin.is_premium &&
+    !isFreeSkin(skin) &&
+    !ownedIds.has(skin.id) &&
+    level >= skin.unlock_level &&
+    xp >= skin.unlock_xp
+  );
+  if (unlocked.length === 0) return [];
+
+  const { error } = await supabase
+    .from('player_skins')
+    .insert(unlocked.map(skin => ({ player_id: playerId, skin_id: skin.id })));
+
+  if (error) {
+    console.error('Skin unlock error:', error);
+    return [];
+  }
+
+  return unlocked;
+}
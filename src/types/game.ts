@@ -1,3 +1,6 @@
+import type { SeededRandom } from '../game/Random';
+import type { SpatialIndex } from '../game/SpatialGrid';
+
 export interface Vector2 {
   x: number;
   y: number;
@@ -9,6 +12,17 @@ export interface SnakeSegment {
   radius: number;
 }
 
+export type AIPersonality = 'greedy' | 'aggressive' | 'cautious';
+
+export type AIDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface AIBrain {
+  // Id of the registered BotController that steers this snake; the built-in utility AI when unset.
+  bot?: string;
+  personality: AIPersonality;
+  nextThinkTick: number;
+}
+
 export interface Snake {
   id: string;
   username: string;
@@ -25,10 +39,75 @@ export interface Snake {
   kills: number;
   isAI?: boolean;
   faceUrl?: string;
+  killedBy?: string;
+  team?: string;
+  shedMass?: number;
+  effects?: Partial<Record<PowerUpType, number>>;
+  brain?: AIBrain;
+}
+
+export interface SnakeInput {
+  targetDirection: number;
+  boost: boolean;
+}
+
+export interface MapWall {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MapRock {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface SlowZone {
+  x: number;
+  y: number;
+  radius: number;
+  factor: number;
+}
+
+export interface FoodZone {
+  x: number;
+  y: number;
+  radius: number;
+  density: number;
+}
+
+export type ArenaShape = 'rectangle' | 'circle' | 'torus';
+
+export interface GameMap {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  shape: ArenaShape;
+  walls: MapWall[];
+  rocks: MapRock[];
+  slowZones: SlowZone[];
+  foodZones: FoodZone[];
+  spawns: Vector2[];
+}
+
+export type PowerUpType = 'magnet' | 'shield' | 'speed' | 'ghost';
+
+export interface PowerUp {
+  id: string;
+  type: PowerUpType;
+  x: number;
+  y: number;
+  radius: number;
 }
 
+export type FoodKind = 'pellet' | 'remains' | 'boost';
+
 export interface Food {
   id: string;
+  kind: FoodKind;
   x: number;
   y: number;
   radius: number;
@@ -36,19 +115,95 @@ export interface Food {
   value: number;
 }
 
+export interface GameRules {
+  mapWidth: number;
+  mapHeight: number;
+  initialFoodCount: number;
+  maxAISnakes: number;
+  turnSpeed: number;
+  boostMultiplier: number;
+  boostDrain: number;
+  boostPelletMass: number;
+  minBoostMass: number;
+  massPerSegment: number;
+  massPerFood: number;
+  baseRadius: number;
+  radiusGrowth: number;
+  killBonus: number;
+  maxPowerUps: number;
+}
+
+export type GameModeId = 'ffa' | 'teams' | 'timed' | 'royale';
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+  score: number;
+}
+
+export interface SafeZone {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface ModeState {
+  id: GameModeId;
+  startTick: number;
+  endsAtTick: number | null;
+  teams: Team[];
+  zone: SafeZone | null;
+  isOver: boolean;
+  winner: string | null;
+}
+
+// Who a snake was when an event happened; by the time the event is read the snake may be gone.
+export interface SnakeTag {
+  id: string;
+  username: string;
+  color: string;
+  isAI: boolean;
+  team?: string;
+}
+
+// How a snake died: its head ran into another snake's body, the two met head to head, or it hit the edge of the
+// arena, an obstacle or the closing royale zone.
+export type DeathCause = 'body' | 'headOn' | 'border' | 'obstacle' | 'zone';
+
+// Something that happened in the simulation, for effects, sounds and stats; the simulation never reads these back.
+export type GameEvent =
+  | { type: 'foodEaten'; snakeId: string; kind: FoodKind; x: number; y: number; color: string; value: number }
+  | {
+      type: 'snakeDied';
+      victim: SnakeTag;
+      killer?: SnakeTag;
+      cause: DeathCause;
+      x: number;
+      y: number;
+      mass: number;
+      score: number;
+    }
+  | { type: 'boostStarted'; snakeId: string }
+  | { type: 'snakeSpawned'; snake: SnakeTag };
+
 export interface GameState {
   snakes: Map<string, Snake>;
   foods: Food[];
+  powerUps: PowerUp[];
   playerSnake: Snake | null;
-  camera: {
-    x: number;
-    y: number;
-    zoom: number;
-  };
   mapSize: {
     width: number;
     height: number;
   };
+  random: SeededRandom;
+  tick: number;
+  spatial: SpatialIndex;
+  mode: ModeState;
+  rules: GameRules;
+  map: GameMap;
+  aiDifficulty: AIDifficulty;
+  events: GameEvent[];
 }
 
 export interface LeaderboardEntry {
@@ -64,3 +219,11 @@ export interface PlayerStats {
   timeAlive: number;
   rank: number;
 }
+
+export interface StartOptions {
+  serverUrl?: string;
+  mode: GameModeId;
+  rules: GameRules;
+  map?: GameMap;
+  difficulty: AIDifficulty;
+}